@@ -0,0 +1,300 @@
+/**
+ * Sandbox Bridge
+ *
+ * Builds the vm context that agent code runs in, without handing any
+ * host-realm object to the sandbox. Host objects carry the host's
+ * `Function` constructor on their prototype chain, so a single leaked
+ * reference (e.g. `memory.readGraph.constructor.constructor`) lets agent
+ * code compile functions outside the sandbox and reach `process`.
+ *
+ * To close those paths:
+ * - The context's global object has a null prototype, so `this.constructor`
+ *   resolves to the context's own intrinsics instead of the host's
+ * - Every global the sandbox sees (memory namespaces, console, timers) is a
+ *   function created inside the context that closes over a private host hook
+ * - Only primitives cross back into the sandbox: tool arguments and results
+ *   travel as JSON text, errors as message/name/code strings, timer ids as
+ *   numbers
+ * - The host hooks never throw into the sandbox
+ * - Once a run has ended, calls are rejected and results of calls still in
+ *   flight are dropped, so agent code left running cannot reach the host
+ * - Values returned by agent code are serialized inside the context and
+ *   leave it as JSON text, so the host never walks a sandbox object
+ */
+
+import vm from 'node:vm';
+import { types } from 'node:util';
+
+/**
+ * A host function exposed to agent code as an async method. Arguments are
+ * whatever agent code passed, parsed from JSON, so the function has to
+ * check them before use.
+ */
+export type HostMethod = (...args: unknown[]) => unknown;
+
+/** Console levels available inside the sandbox */
+export type ConsoleLevel = 'log' | 'error' | 'warn';
+
+export interface SandboxHost {
+  /** Async APIs, mounted as globals: `{ memory: { readGraph, ... } }` */
+  namespaces: Record<string, Record<string, HostMethod>>;
+  /** Receives console calls made by agent code */
+  log: (level: ConsoleLevel, args: unknown[]) => void;
+  /** Schedules a sandbox callback and returns a numeric timer id */
+  setTimer: (callback: () => void, ms: number) => number;
+  /** Cancels a timer created by setTimer */
+  clearTimer: (id: number) => void;
+  /** Whether a run is using the context; calls are rejected otherwise */
+  active: () => boolean;
+}
+
+/** Error details that cross the bridge as primitives */
+export interface BridgedError {
+  message: string;
+  name?: string;
+  code?: string;
+}
+
+/**
+ * Runs inside the context. Receives the host hooks and installs
+ * context-native wrappers as globals. The hooks stay in this closure.
+ */
+const SETUP_SOURCE = `
+(function (hooks, spec) {
+  'use strict';
+  const { call, log, setTimer, clearTimer } = hooks;
+  const namespaces = JSON.parse(spec);
+  const expose = (name, value) =>
+    Object.defineProperty(globalThis, name, { value, writable: true, configurable: true });
+
+  for (const ns of Object.keys(namespaces)) {
+    const api = {};
+    for (const method of namespaces[ns]) {
+      api[method] = {
+        [method](...args) {
+          return new Promise((resolve, reject) => {
+            call(
+              ns,
+              method,
+              JSON.stringify(args),
+              json => resolve(json === undefined ? undefined : JSON.parse(json)),
+              (message, name, code) => {
+                const error = new Error(message);
+                if (name) error.name = name;
+                if (code !== undefined) error.code = code;
+                reject(error);
+              }
+            );
+          });
+        },
+      }[method];
+    }
+    expose(ns, Object.freeze(api));
+  }
+
+  expose('console', Object.freeze({
+    log: (...args) => { log('log', args); },
+    error: (...args) => { log('error', args); },
+    warn: (...args) => { log('warn', args); },
+  }));
+  expose('setTimeout', (callback, ms, ...args) => setTimer(() => callback(...args), Number(ms) || 0));
+  expose('clearTimeout', id => { clearTimer(Number(id)); });
+
+  // Serializer for return values, captured before agent code can patch JSON.
+  // The host stages a value and runs SERIALIZE_SCRIPT, so getters and toJSON
+  // methods of the value run under the execution timeout.
+  const stringify = JSON.stringify;
+  const serialize = value => {
+    const ancestors = [];
+    const toJSONValue = (value, key) => {
+      if (value !== null && typeof value === 'object' && typeof value.toJSON === 'function') {
+        value = value.toJSON(key);
+      }
+      if (typeof value === 'bigint') return String(value);
+      if (value === null || typeof value !== 'object') {
+        return typeof value === 'function' || typeof value === 'symbol' ? undefined : value;
+      }
+      if (ancestors.includes(value)) return '[Circular]';
+      ancestors.push(value);
+      try {
+        if (value instanceof Map) {
+          const entries = [...value].map(([k, v]) => [toJSONValue(k, ''), toJSONValue(v, String(k))]);
+          return [...value.keys()].every(k => typeof k === 'string') ? Object.fromEntries(entries) : entries;
+        }
+        if (value instanceof Set) return [...value].map(v => toJSONValue(v, ''));
+        if (Array.isArray(value)) return value.map((v, i) => toJSONValue(v, String(i)));
+        if (value instanceof Error) {
+          const error = { name: String(value.name), message: String(value.message) };
+          return value.code === undefined ? error : { ...error, code: String(value.code) };
+        }
+        const result = {};
+        for (const k of Object.keys(value)) {
+          const v = toJSONValue(value[k], k);
+          if (v !== undefined) result[k] = v;
+        }
+        return result;
+      } finally {
+        ancestors.pop();
+      }
+    };
+    return stringify(toJSONValue(value, ''));
+  };
+  let staged;
+  Object.defineProperty(globalThis, '__serializeReturnValue', {
+    value: () => {
+      const value = staged;
+      staged = undefined;
+      return serialize(value);
+    },
+  });
+  return value => { staged = value; };
+})
+`;
+
+/** Serializes the value last staged in the context */
+const SERIALIZE_SCRIPT = new vm.Script('__serializeReturnValue()', { filename: 'sandbox-serialize.js' });
+
+/** Stage a return value for SERIALIZE_SCRIPT, one function per context */
+const stagers = new WeakMap<vm.Context, (value: unknown) => void>();
+
+/**
+ * Create a vm context exposing the given host APIs through the bridge
+ */
+export function createSandboxContext(host: SandboxHost): vm.Context {
+  const context = vm.createContext(Object.create(null));
+
+  const call = (
+    ns: string,
+    method: string,
+    argsJson: string,
+    resolve: (json: string | undefined) => void,
+    reject: (message: string, name?: string, code?: string) => void
+  ): void => {
+    if (!host.active()) {
+      reject('Execution has ended');
+      return;
+    }
+    let pending: Promise<unknown>;
+    try {
+      const namespace = Object.hasOwn(host.namespaces, ns) ? host.namespaces[ns] : undefined;
+      const fn = namespace && Object.hasOwn(namespace, method) ? namespace[method] : undefined;
+      if (!fn) throw new Error(`Unknown method: ${ns}.${method}`);
+      const args: unknown = JSON.parse(argsJson);
+      if (!Array.isArray(args)) throw new Error(`Malformed arguments for ${ns}.${method}`);
+      pending = Promise.resolve(fn(...args));
+    } catch (error) {
+      pending = Promise.reject(error);
+    }
+    pending.then(
+      result => {
+        if (!host.active()) return;
+        try {
+          resolve(JSON.stringify(result));
+        } catch (error) {
+          const { message, name, code } = toBridgedError(error);
+          reject(message, name, code);
+        }
+      },
+      error => {
+        if (!host.active()) return;
+        const { message, name, code } = toBridgedError(error);
+        reject(message, name, code);
+      }
+    );
+  };
+
+  const hooks = {
+    call,
+    log: (level: ConsoleLevel, args: unknown[]) => {
+      try {
+        host.log(level, args);
+      } catch {
+        // Formatting failures must not surface host errors in the sandbox
+      }
+    },
+    setTimer: (callback: () => void, ms: number) => host.setTimer(callback, ms),
+    clearTimer: (id: number) => host.clearTimer(id),
+  };
+
+  const spec = JSON.stringify(
+    Object.fromEntries(
+      Object.entries(host.namespaces).map(([ns, methods]) => [ns, Object.keys(methods)])
+    )
+  );
+
+  const setup = vm.runInContext(SETUP_SOURCE, context, { filename: 'sandbox-setup.js' });
+  stagers.set(context, setup(hooks, spec));
+
+  return context;
+}
+
+/**
+ * Serialize a value returned by agent code to JSON text
+ *
+ * Maps become objects (or `[key, value]` pairs when a key is not a
+ * string), Sets become arrays, BigInts become strings and circular
+ * references become `"[Circular]"`. Functions and symbols are dropped, as
+ * with JSON.stringify.
+ *
+ * @param timeoutMs - Time the serialization may take, e.g. what is left of
+ *   the execution timeout
+ * @returns The JSON text, or undefined when there is nothing to return
+ * @throws If serialization fails, e.g. because a getter or toJSON threw, or
+ *   the vm timeout error if it runs out of time
+ */
+export function serializeSandboxValue(context: vm.Context, value: unknown, timeoutMs: number): string | undefined {
+  const stage = stagers.get(context);
+  if (!stage) throw new Error('Not a sandbox context');
+  stage(value);
+  let json: unknown;
+  try {
+    json = SERIALIZE_SCRIPT.runInContext(context, { timeout: Math.max(1, Math.ceil(timeoutMs)) });
+  } catch (error) {
+    if (thrownCode(error) === 'ERR_SCRIPT_EXECUTION_TIMEOUT') throw error;
+    throw new Error(`Return value could not be serialized: ${describeThrown(error)}`);
+  }
+  return typeof json === 'string' ? json : undefined;
+}
+
+/**
+ * Reduce any thrown value to primitives that are safe to hand to the sandbox
+ * (or to post to a worker)
+ */
+export function toBridgedError(error: unknown): BridgedError {
+  if (error instanceof Error) {
+    const code = (error as { code?: unknown }).code;
+    return {
+      message: String(error.message),
+      name: String(error.name),
+      code: code === undefined ? undefined : String(code),
+    };
+  }
+  return { message: String(error) };
+}
+
+/**
+ * The `code` of an error thrown by agent code, e.g. `NOT_FOUND` from a
+ * memory wrapper. Only an own data property is read, as in describeThrown().
+ */
+export function thrownCode(error: unknown): string | undefined {
+  if (!types.isNativeError(error)) return undefined;
+  const descriptor = Object.getOwnPropertyDescriptor(error, 'code');
+  return descriptor && typeof descriptor.value === 'string' ? descriptor.value : undefined;
+}
+
+/**
+ * Describe a value thrown by agent code without running any of its code.
+ * Sandbox errors come from the context's realm, so `instanceof Error` does
+ * not apply, and reading properties of an arbitrary object could invoke
+ * getters or proxy traps outside the execution timeout.
+ */
+export function describeThrown(error: unknown): string {
+  if (error === null || (typeof error !== 'object' && typeof error !== 'function')) {
+    return String(error);
+  }
+  if (types.isNativeError(error)) {
+    const descriptor = Object.getOwnPropertyDescriptor(error, 'message');
+    if (descriptor && typeof descriptor.value === 'string') return descriptor.value;
+  }
+  return 'Uncaught non-error value';
+}
@@ -0,0 +1,226 @@
+/**
+ * Execution History
+ *
+ * An append-only JSONL audit log with one line per execution: the code,
+ * the options it ran with, when it ran, how it ended, how much output it
+ * produced and which memory writes it made. Entries can be filtered and
+ * paged, and a single run can be fetched in full to replay it.
+ *
+ *   workspace/audit-log.jsonl
+ *
+ * @example
+ * const history = new ExecutionHistory('./workspace/audit-log.jsonl');
+ * const startedAt = new Date();
+ * const result = await executeCode(code, options);
+ * await history.append(createExecutionRecord({ source: 'execute_code', code, options, result, startedAt }));
+ * const { records } = await history.query({ status: 'error', limit: 10 });
+ */
+
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { MEMORY_NAMESPACE, MUTATING_TOOLS } from '../servers/memory/client.js';
+import type { ExecutionOptions, ExecutionResult, ExecutionStatus } from './sandbox.js';
+
+/** A memory write made by an execution */
+export interface RecordedMutation {
+  tool: string;
+  params: Record<string, unknown>;
+  error?: string;
+}
+
+export interface ExecutionRecord {
+  executionId: string;
+  /** What started the run, e.g. `execute_code` or `run_skill:mark-processed` */
+  source: string;
+  code: string;
+  /** The JSON-serializable execution options, e.g. timeoutMs, sessionId, globals */
+  options: Record<string, unknown>;
+  startedAt: string;
+  finishedAt: string;
+  elapsedMs: number;
+  status: ExecutionStatus;
+  success: boolean;
+  error?: string;
+  errorCode?: string;
+  outputLines: number;
+  outputChars: number;
+  /** Memory writes attempted, in order, including rejected ones */
+  mutations: RecordedMutation[];
+}
+
+export interface HistoryQuery {
+  status?: ExecutionStatus;
+  /** Match the source exactly, or by prefix when it ends with `*` (e.g. `run_skill:*`) */
+  source?: string;
+  /** Only runs whose code contains this text */
+  codeContains?: string;
+  /** Only runs that made memory writes */
+  mutatingOnly?: boolean;
+  /** Only runs started at or after this ISO timestamp */
+  since?: string;
+  /** Only runs started before this ISO timestamp */
+  until?: string;
+  /** Runs to skip, newest first (default: 0) */
+  offset?: number;
+  /** Runs to return (default: 20) */
+  limit?: number;
+}
+
+export interface HistoryPage {
+  records: ExecutionRecord[];
+  /** Runs matching the filters, across all pages */
+  total: number;
+}
+
+/** Options that cannot be logged: callbacks, signals and server-wide objects */
+const UNLOGGED_OPTIONS = new Set(['signal', 'onOutput', 'redactOutput', 'journal', 'policy', 'executionId']);
+
+/**
+ * Build the audit record of a finished execution
+ */
+export function createExecutionRecord(run: {
+  source: string;
+  code: string;
+  options: ExecutionOptions;
+  result: ExecutionResult;
+  startedAt: Date;
+}): ExecutionRecord {
+  const { source, code, options, result, startedAt } = run;
+  return {
+    executionId: result.executionId,
+    source,
+    code,
+    options: Object.fromEntries(
+      Object.entries(options).filter(([key, value]) => value !== undefined && !UNLOGGED_OPTIONS.has(key))
+    ),
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    elapsedMs: result.elapsedMs,
+    status: result.status,
+    success: result.success,
+    ...(result.error !== undefined && { error: result.error }),
+    ...(result.errorCode !== undefined && { errorCode: result.errorCode }),
+    outputLines: result.output.length,
+    outputChars: result.output.reduce((n, line) => n + line.length, 0),
+    mutations: (result.calls ?? [])
+      .filter(call => call.namespace === MEMORY_NAMESPACE && MUTATING_TOOLS.has(call.tool))
+      .map(call => ({ tool: call.tool, params: call.params, ...(call.error !== undefined && { error: call.error }) })),
+  };
+}
+
+/**
+ * One-line description of a run, e.g.
+ * `2026-10-19T09:12:03.000Z 9f1c…e2 execute_code error 1,204ms, 3 output lines, 2 writes: Policy violation: …`
+ */
+export function summarizeExecutionRecord(record: ExecutionRecord): string {
+  const format = (n: number) => n.toLocaleString('en-US');
+  const writes = record.mutations.length;
+  const details = [
+    `${format(record.elapsedMs)}ms`,
+    `${format(record.outputLines)} output line${record.outputLines === 1 ? '' : 's'}`,
+    `${writes} write${writes === 1 ? '' : 's'}`,
+  ];
+  return (
+    `${record.startedAt} ${record.executionId} ${record.source} ${record.status} ${details.join(', ')}` +
+    (record.error !== undefined ? `: ${record.error.split('\n')[0]}` : '')
+  );
+}
+
+/**
+ * JSONL file of execution records
+ */
+export class ExecutionHistory {
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly file: string) {}
+
+  /**
+   * Append a record; appends are written one at a time, in call order
+   */
+  append(record: ExecutionRecord): Promise<void> {
+    const write = async () => {
+      await mkdir(path.dirname(this.file), { recursive: true });
+      await appendFile(this.file, JSON.stringify(record) + '\n', 'utf-8');
+    };
+    const result = this.pending.then(write, write);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Find runs matching the filters, newest first
+   *
+   * @throws If `since` or `until` is not a timestamp, or `offset` or
+   *   `limit` is not a non-negative integer
+   */
+  async query(query: HistoryQuery = {}): Promise<HistoryPage> {
+    const { status, source, codeContains, mutatingOnly, offset = 0, limit = 20 } = query;
+    const since = query.since === undefined ? undefined : toTimestamp('since', query.since);
+    const until = query.until === undefined ? undefined : toTimestamp('until', query.until);
+    for (const [name, value] of [['offset', offset], ['limit', limit]] as const) {
+      if (!Number.isInteger(value) || value < 0) {
+        throw new Error(`"${name}" must be a non-negative integer, got ${JSON.stringify(value)}`);
+      }
+    }
+    const matchesSource = (value: string) =>
+      source === undefined || (source.endsWith('*') ? value.startsWith(source.slice(0, -1)) : value === source);
+
+    const matches = (await this.readAll())
+      .filter(
+        record =>
+          (status === undefined || record.status === status) &&
+          matchesSource(record.source) &&
+          (codeContains === undefined || record.code.includes(codeContains)) &&
+          (!mutatingOnly || record.mutations.length > 0) &&
+          (since === undefined || record.startedAt >= since) &&
+          (until === undefined || record.startedAt < until)
+      )
+      .reverse();
+    return { records: matches.slice(offset, offset + limit), total: matches.length };
+  }
+
+  /**
+   * Load one run by execution ID
+   *
+   * @returns The record, or null if the run is not in the log
+   */
+  async get(executionId: string): Promise<ExecutionRecord | null> {
+    return (await this.readAll()).find(record => record.executionId === executionId) ?? null;
+  }
+
+  /**
+   * Read every record, skipping lines that are not valid JSON (e.g. a
+   * partial line left by a crash)
+   */
+  private async readAll(): Promise<ExecutionRecord[]> {
+    await this.pending;
+    let text: string;
+    try {
+      text = await readFile(this.file, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    const records: ExecutionRecord[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as ExecutionRecord);
+      } catch {
+        // skip the damaged line
+      }
+    }
+    return records;
+  }
+}
+
+/**
+ * Normalize a timestamp filter to the ISO form records are stored in
+ */
+function toTimestamp(name: string, value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`"${name}" must be an ISO timestamp such as 2026-10-19T09:00:00Z, got ${JSON.stringify(value)}`);
+  }
+  return date.toISOString();
+}
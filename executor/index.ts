@@ -5,4 +5,40 @@
  * to MCP tool wrappers.
  */
 
-export { executeCode, type ExecutionResult, type ExecutionOptions } from './sandbox.js';
+export {
+  executeCode,
+  mountNamespace,
+  unmountNamespace,
+  type ExecutionResult,
+  type ExecutionOptions,
+  type ExecutionStatus,
+  type IsolationMode,
+  type SourceLanguage,
+} from './sandbox.js';
+
+export {
+  listSessions,
+  destroySession,
+  setSessionIdleTtl,
+  type SessionInfo,
+} from './sessions.js';
+
+export {
+  SkillLibrary,
+  validateSkillArgs,
+  formatSkillSignature,
+  type Skill,
+  type SkillDefinition,
+  type SkillParameter,
+  type SkillParameterType,
+} from './skills.js';
+
+export {
+  ExecutionHistory,
+  createExecutionRecord,
+  summarizeExecutionRecord,
+  type ExecutionRecord,
+  type RecordedMutation,
+  type HistoryQuery,
+  type HistoryPage,
+} from './history.js';
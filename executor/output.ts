@@ -0,0 +1,175 @@
+/**
+ * Console Output Budget
+ *
+ * Caps how much console output one execution can return, so that
+ * `console.log(await memory.readGraph())` on a large graph does not flood
+ * the model's context.
+ *
+ * Values are pretty-printed in full when they fit the remaining budget.
+ * Otherwise they are summarized: arrays keep their first items followed by
+ * an "…and 4,950 more" marker, objects are cut off below a depth limit,
+ * and the limits tighten until the value fits. Anything still over budget
+ * is cut, and once the budget is spent further lines are dropped. Every
+ * omitted character and line is counted, so the caller can report it.
+ */
+
+import { types } from 'node:util';
+
+export interface OutputLimits {
+  /** Characters of console output kept per execution */
+  maxChars: number;
+  /** Lines of console output kept per execution */
+  maxLines: number;
+}
+
+/** Output left out of an execution's result */
+export interface DroppedOutput {
+  chars: number;
+  lines: number;
+}
+
+export const DEFAULT_OUTPUT_LIMITS: OutputLimits = { maxChars: 20000, maxLines: 500 };
+
+/**
+ * Summary levels tried in order until a value fits: items kept per array
+ * (and keys per object), and the depth below which objects are elided
+ */
+const SUMMARY_LEVELS = [
+  { items: 20, depth: 6 },
+  { items: 10, depth: 4 },
+  { items: 5, depth: 3 },
+  { items: 3, depth: 2 },
+  { items: 1, depth: 1 },
+];
+
+/**
+ * Tracks the output written by one execution against its limits
+ */
+export class OutputBudget {
+  private chars = 0;
+  private lines = 0;
+  private readonly droppedOutput: DroppedOutput = { chars: 0, lines: 0 };
+
+  constructor(private readonly limits: OutputLimits = DEFAULT_OUTPUT_LIMITS) {}
+
+  get remainingChars(): number {
+    return Math.max(0, this.limits.maxChars - this.chars);
+  }
+
+  get remainingLines(): number {
+    return Math.max(0, this.limits.maxLines - this.lines);
+  }
+
+  /**
+   * Output omitted so far, or undefined if nothing was
+   */
+  get dropped(): DroppedOutput | undefined {
+    const { chars, lines } = this.droppedOutput;
+    return chars > 0 || lines > 0 ? { chars, lines } : undefined;
+  }
+
+  /**
+   * Count output that was left out before reaching the budget
+   */
+  omit(chars: number, lines: number): void {
+    this.droppedOutput.chars += Math.max(0, chars);
+    this.droppedOutput.lines += Math.max(0, lines);
+  }
+
+  /**
+   * Cut an output entry to the remaining budget and charge it
+   *
+   * @returns The part that fits, or undefined once the budget is spent
+   */
+  fit(text: string): string | undefined {
+    const lines = text.split('\n');
+    if (this.remainingChars === 0 || this.remainingLines === 0) {
+      this.omit(text.length, lines.length);
+      return undefined;
+    }
+    let kept = lines.slice(0, this.remainingLines).join('\n');
+    if (kept.length > this.remainingChars) kept = kept.slice(0, this.remainingChars);
+    const keptLines = kept.split('\n').length;
+    this.chars += kept.length;
+    this.lines += keptLines;
+    if (kept.length === text.length) return text;
+    this.omit(text.length - kept.length, lines.length - keptLines);
+    return kept + '…';
+  }
+}
+
+/**
+ * Format a console argument, summarizing it if it would not fit the
+ * remaining budget
+ */
+export function formatValue(value: unknown, budget: OutputBudget): string {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (typeof value !== 'object') return String(value);
+
+  const full = JSON.stringify(toPreview(value, Infinity, Infinity, []), null, 2);
+  if (fits(full, budget)) return full;
+
+  let summary = full;
+  for (const { items, depth } of SUMMARY_LEVELS) {
+    summary = JSON.stringify(toPreview(value, items, depth, []), null, 2);
+    if (fits(summary, budget)) break;
+  }
+  budget.omit(full.length - summary.length, lineCount(full) - lineCount(summary));
+  return summary;
+}
+
+/**
+ * Copy a value into plain JSON data, keeping at most `items` entries per
+ * array or object and `depth` levels of nesting
+ */
+function toPreview(value: unknown, items: number, depth: number, ancestors: object[]): unknown {
+  if (value !== null && typeof value === 'object' && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    value = (value as { toJSON: () => unknown }).toJSON();
+  }
+  if (typeof value === 'bigint') return String(value);
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'function' || typeof value === 'symbol' ? undefined : value;
+  }
+  if (ancestors.includes(value)) return '[Circular]';
+
+  const isList = Array.isArray(value) || types.isSet(value);
+  const entries: Array<[string, unknown]> = types.isMap(value)
+    ? Array.from(value, ([key, item]) => [String(key), item])
+    : isList
+      ? Array.from(value as Iterable<unknown>, (item, i) => [String(i), item])
+      : Object.keys(value).map(key => [key, (value as Record<string, unknown>)[key]]);
+
+  if (depth <= 0) {
+    return isList ? `[Array(${entries.length})]` : `[Object with ${plural(entries.length, 'key')}]`;
+  }
+
+  ancestors.push(value);
+  const kept = entries.slice(0, items).map(([key, item]): [string, unknown] => [
+    key,
+    toPreview(item, items, depth - 1, ancestors),
+  ]);
+  ancestors.pop();
+
+  const more = entries.length - kept.length;
+  if (isList) {
+    const list = kept.map(([, item]) => item ?? null);
+    return more > 0 ? [...list, `…and ${more.toLocaleString('en-US')} more`] : list;
+  }
+  const object = Object.fromEntries(kept.filter(([, item]) => item !== undefined));
+  return more > 0 ? { ...object, '…': `and ${plural(more, 'more key')}` } : object;
+}
+
+function fits(text: string, budget: OutputBudget): boolean {
+  return text.length <= budget.remainingChars && lineCount(text) <= budget.remainingLines;
+}
+
+function lineCount(text: string): number {
+  return text.split('\n').length;
+}
+
+function plural(n: number, noun: string): string {
+  return `${n.toLocaleString('en-US')} ${noun}${n === 1 ? '' : 's'}`;
+}
@@ -6,29 +6,144 @@
  *
  * Security notes:
  * - Uses Node.js vm module (basic isolation, not production-grade)
+ * - No host-realm objects enter the context (see bridge.ts), which closes
+ *   the usual `constructor.constructor('return process')()` escapes
+ * - Runs in a worker thread with a heap limit by default; the worker is
+ *   terminated on timeout
+ * - With `isolation: 'vm'` the code shares the host thread, and the vm
+ *   timeout cannot stop a loop that starts after the code's first `await`
  * - For production, consider: isolated-vm, Docker, or Deno
- * - Timeout protection prevents infinite loops
+ * - Timeout protection covers both synchronous loops and pending async work
  * - Console output is captured and returned
  */
 
+import { randomUUID } from 'node:crypto';
 import vm from 'node:vm';
-import * as memory from '../servers/memory/index.js';
+import { types } from 'node:util';
+import * as memory from '../servers/memory/operations.js';
+import {
+  callNamespacedTool,
+  getMCPClient,
+  getRegisteredMCPClient,
+  listMCPNamespaces,
+  runWithMCPClients,
+  MEMORY_NAMESPACE,
+} from '../servers/memory/client.js';
+import { ValidationError } from '../servers/memory/errors.js';
+import { OverlayMCPClient, applyGraphDiff, type GraphDiff } from '../servers/memory/overlay-client.js';
+import { JournalingMCPClient, type MutationJournal } from '../servers/memory/journal.js';
+import { PolicyMCPClient, type Policy } from '../servers/memory/policy.js';
+import { TracingMCPClient, type ToolCallTrace, type TraceOptions } from '../servers/memory/tracing-client.js';
+import { executeInWorker } from './worker.js';
+import {
+  createSandboxContext,
+  describeThrown,
+  thrownCode,
+  serializeSandboxValue,
+  type ConsoleLevel,
+  type HostMethod,
+  type SandboxHost,
+} from './bridge.js';
+import { openSession, hoistTopLevelDeclarations, type Session } from './sessions.js';
+import { OutputBudget, formatValue, DEFAULT_OUTPUT_LIMITS, type DroppedOutput } from './output.js';
+import { transpileAgentCode, typeCheckAgentCode } from './typescript.js';
+
+/**
+ * How an execution ended
+ * - success: the code ran to completion
+ * - error: the code threw or rejected
+ * - timeout: the wall-clock limit was reached
+ * - aborted: the caller's AbortSignal fired
+ */
+export type ExecutionStatus = 'success' | 'error' | 'timeout' | 'aborted';
 
 export interface ExecutionResult {
+  /** Identifies this run, e.g. for undo_execution */
+  executionId: string;
   success: boolean;
+  status: ExecutionStatus;
   output: string[];
+  /** Console output left out because it exceeded the output budget */
+  droppedOutput?: DroppedOutput;
+  /** Value returned by the code, as parsed JSON (absent when it returned nothing) */
+  returnValue?: unknown;
   error?: string;
+  /** Machine-readable code of the error, e.g. `NOT_FOUND` or `INVALID_INPUT` from a memory wrapper */
+  errorCode?: string;
+  /** Compiler errors that stopped the code from running */
+  diagnostics?: string[];
   elapsedMs: number;
+  /** Tool calls the code made, in the order they finished */
+  calls?: ToolCallTrace[];
+  /** Changes the code would have made to the memory graph (dry runs only) */
+  diff?: GraphDiff;
 }
 
+/**
+ * Where agent code runs
+ * - vm: a vm context inside the current thread (fast, shares the process;
+ *   the timeout only stops code that has not awaited yet)
+ * - worker: a dedicated worker thread with a heap limit and hard kill
+ */
+export type IsolationMode = 'vm' | 'worker';
+
+/**
+ * Language of the code passed to executeCode
+ * - typescript: transpiled before it runs; plain JavaScript is accepted too
+ * - javascript: run as-is
+ */
+export type SourceLanguage = 'typescript' | 'javascript';
+
 export interface ExecutionOptions {
+  /** Wall-clock limit for the whole execution, including awaited work */
   timeoutMs?: number;
+  /** Cancels the execution when aborted */
+  signal?: AbortSignal;
+  /** Where the code runs (default: 'worker', or 'vm' with a session) */
+  isolation?: IsolationMode;
+  /** Heap limit in MB for worker isolation (default: 128) */
+  maxHeapMb?: number;
+  /** Called with each console line as it is captured */
+  onOutput?: (line: string) => void;
+  /** Characters of console output kept (default: 20000) */
+  maxOutputChars?: number;
+  /** Lines of console output kept (default: 500) */
+  maxOutputLines?: number;
+  /** Reuse the context of this session so top-level variables persist (vm only) */
+  sessionId?: string;
+  /** JSON-serializable values injected as variables, e.g. `{ args: {...} }` */
+  globals?: Record<string, unknown>;
+  /** Applied to every output line and the error message, e.g. to tokenize PII */
+  redactOutput?: (text: string) => string;
+  /** Keep memory writes in an overlay and report them as `diff` instead of applying them */
+  dryRun?: boolean;
+  /** Record memory writes in this journal so the run can be undone */
+  journal?: MutationJournal;
+  /** Rules for memory calls; a violation fails the run, and its writes are not applied */
+  policy?: Policy;
+  /** ID for this run (default: a random UUID) */
+  executionId?: string;
+  /** Language of `code` (default: 'typescript') */
+  language?: SourceLanguage;
+  /** Type-check TypeScript code against the wrapper types before running it */
+  typeCheck?: boolean;
+  /** Record tool calls as `calls` (default: true); options set how parameters are recorded */
+  trace?: boolean | TraceOptions;
+}
+
+/**
+ * Thrown internally to stop waiting on agent code
+ */
+class ExecutionInterrupt extends Error {
+  constructor(readonly status: 'timeout' | 'aborted', message: string) {
+    super(message);
+  }
 }
 
 /**
  * Execute code in a sandboxed environment with access to memory tools
  *
- * @param code - The JavaScript/TypeScript code to execute (must be valid JS)
+ * @param code - The TypeScript or JavaScript code to execute
  * @param options - Execution options
  * @returns Execution result with output and timing
  *
@@ -36,118 +151,449 @@ export interface ExecutionOptions {
  * const result = await executeCode(`
  *   const graph = await memory.readGraph();
  *   console.log('Entities:', graph.entities.length);
+ *   return new Set(graph.entities.map(e => e.entityType));
  * `);
+ * result.returnValue; // ['TestRecord']
  */
 export async function executeCode(
   code: string,
   options: ExecutionOptions = {}
 ): Promise<ExecutionResult> {
-  const { timeoutMs = 30000 } = options;
+  const executionId = options.executionId ?? randomUUID();
+  if (options.isolation === 'worker' && options.sessionId !== undefined) {
+    return {
+      executionId,
+      success: false,
+      status: 'error',
+      output: [],
+      error: 'Sessions are only supported with vm isolation',
+      elapsedMs: 0,
+    };
+  }
+  if (options.redactOutput) {
+    const { redactOutput, onOutput, ...rest } = options;
+    const result = await executeCode(code, {
+      ...rest,
+      executionId,
+      onOutput: onOutput && (line => onOutput(redactOutput(line))),
+      ...(rest.trace !== false && { trace: { ...traceOptions(rest.trace), redact: redactOutput } }),
+    });
+    return {
+      ...result,
+      output: result.output.map(redactOutput),
+      ...(result.returnValue !== undefined && { returnValue: redactStrings(result.returnValue, redactOutput) }),
+      ...(result.error !== undefined && { error: redactOutput(result.error) }),
+      ...(result.diagnostics && { diagnostics: result.diagnostics.map(redactOutput) }),
+      ...(result.diff && { diff: redactStrings(result.diff, redactOutput) }),
+    };
+  }
+  if (options.language !== 'javascript') {
+    // Compile errors are reported before anything runs
+    const { typeCheck, ...rest } = options;
+    const fail = (error: string, diagnostics: string[]): ExecutionResult => ({
+      executionId,
+      success: false,
+      status: 'error',
+      output: [],
+      error,
+      diagnostics,
+      elapsedMs: 0,
+    });
+    const transpiled = await transpileAgentCode(code);
+    if (transpiled.diagnostics.length > 0) {
+      return fail(`Syntax error: ${transpiled.diagnostics[0]}`, transpiled.diagnostics);
+    }
+    if (typeCheck) {
+      const diagnostics = await typeCheckAgentCode(code, {
+        namespaces: Object.keys(sandboxNamespaces()),
+        globals: Object.keys(options.globals ?? {}),
+        allowUnknownNames: options.sessionId !== undefined,
+      });
+      if (diagnostics.length > 0) {
+        const count = `${diagnostics.length} error${diagnostics.length === 1 ? '' : 's'}`;
+        return fail(`Type check failed with ${count}`, diagnostics);
+      }
+    }
+    return executeCode(transpiled.code, { ...rest, executionId, language: 'javascript' });
+  }
+  if (options.dryRun) {
+    // Only this execution's calls see the overlay; the diff is reported
+    // even when the code fails, so partial work can be reviewed. Nothing
+    // reaches the real graph, so there is nothing to journal.
+    const { dryRun: _dryRun, journal: _journal, ...rest } = options;
+    const overlay = new OverlayMCPClient(getMCPClient());
+    const result = await runWithMCPClients({ [MEMORY_NAMESPACE]: overlay }, () =>
+      executeCode(code, { ...rest, executionId })
+    );
+    return { ...result, diff: await overlay.diff() };
+  }
+  if (options.journal) {
+    const { journal, ...rest } = options;
+    const client = new JournalingMCPClient(getMCPClient(), journal, executionId);
+    return runWithMCPClients({ [MEMORY_NAMESPACE]: client }, () => executeCode(code, { ...rest, executionId }));
+  }
+  if (options.policy) {
+    // Checked in front of the journal or overlay, so rejected calls leave
+    // no trace. Catching the PolicyError in agent code does not hide it.
+    // Writes go to an overlay and reach the graph only if the run succeeds,
+    // so a violation leaves the graph as it was.
+    const { policy, ...rest } = options;
+    const overlay = new OverlayMCPClient(getMCPClient());
+    const client = new PolicyMCPClient(overlay, policy);
+    const result = await runWithMCPClients({ [MEMORY_NAMESPACE]: client }, () =>
+      executeCode(code, { ...rest, executionId })
+    );
+    if (client.violation) {
+      return {
+        ...result,
+        success: false,
+        status: 'error',
+        error: client.violation.message,
+        errorCode: client.violation.code,
+      };
+    }
+    if (!result.success) return result;
+    try {
+      await applyGraphDiff(await overlay.diff(), getMCPClient());
+    } catch (error) {
+      return {
+        ...result,
+        success: false,
+        status: 'error',
+        error: `Could not apply the run's writes: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+    return result;
+  }
+  if (options.trace !== false) {
+    // Outermost, so calls rejected by a policy are traced too. Calls still
+    // running when the execution ends are not included.
+    const calls: ToolCallTrace[] = [];
+    let done = false;
+    const record = (call: ToolCallTrace) => {
+      if (!done) calls.push(call);
+    };
+    const tracers = listMCPNamespaces().map(namespace => [
+      namespace,
+      new TracingMCPClient(getRegisteredMCPClient(namespace), namespace, record, traceOptions(options.trace)),
+    ]);
+    const result = await runWithMCPClients(Object.fromEntries(tracers), () =>
+      executeCode(code, { ...options, executionId, trace: false })
+    );
+    done = true;
+    return { ...result, calls };
+  }
+  if ((options.isolation ?? (options.sessionId === undefined ? 'worker' : 'vm')) === 'worker') {
+    return executeInWorker(code, { ...options, executionId });
+  }
+
+  const {
+    timeoutMs = 30000,
+    signal,
+    onOutput,
+    sessionId,
+    globals = {},
+    maxOutputChars = DEFAULT_OUTPUT_LIMITS.maxChars,
+    maxOutputLines = DEFAULT_OUTPUT_LIMITS.maxLines,
+  } = options;
   const output: string[] = [];
+  const budget = new OutputBudget({ maxChars: maxOutputChars, maxLines: maxOutputLines });
   const startTime = Date.now();
 
-  // Create a custom console that captures output
-  const sandboxConsole = {
-    log: (...args: unknown[]) => {
-      output.push(args.map(a => formatValue(a)).join(' '));
-    },
-    error: (...args: unknown[]) => {
-      output.push('[ERROR] ' + args.map(a => formatValue(a)).join(' '));
-    },
-    warn: (...args: unknown[]) => {
-      output.push('[WARN] ' + args.map(a => formatValue(a)).join(' '));
-    },
+  if (signal?.aborted) {
+    return {
+      executionId,
+      success: false,
+      status: 'aborted',
+      output,
+      error: 'Execution aborted before start',
+      elapsedMs: 0,
+    };
+  }
+
+  // Once the execution has ended, late output from stray callbacks is dropped
+  let finished = false;
+  const write = (line: string) => {
+    if (finished) return;
+    const kept = budget.fit(line);
+    if (kept === undefined) return;
+    output.push(kept);
+    onOutput?.(kept);
   };
 
-  // Create sandbox context with memory tools and utilities
-  const sandbox = {
-    // Memory tool wrappers
-    memory: {
-      readGraph: memory.readGraph,
-      createEntities: memory.createEntities,
-      createRelations: memory.createRelations,
-      addObservations: memory.addObservations,
-      deleteEntities: memory.deleteEntities,
-      deleteObservations: memory.deleteObservations,
-      deleteRelations: memory.deleteRelations,
-      searchNodes: memory.searchNodes,
-      openNodes: memory.openNodes,
-    },
+  // Console output is formatted on the host side
+  const prefixes: Record<ConsoleLevel, string> = { log: '', error: '[ERROR] ', warn: '[WARN] ' };
+  const log = (level: ConsoleLevel, args: unknown[]) => {
+    if (finished) return;
+    write(prefixes[level] + args.map(a => formatValue(a, budget)).join(' '));
+  };
 
-    // Console for output
-    console: sandboxConsole,
-
-    // Utilities
-    setTimeout: setTimeout,
-    clearTimeout: clearTimeout,
-    Promise: Promise,
-    JSON: JSON,
-    Array: Array,
-    Object: Object,
-    String: String,
-    Number: Number,
-    Boolean: Boolean,
-    Date: Date,
-    Math: Math,
-    RegExp: RegExp,
-    Error: Error,
-    Map: Map,
-    Set: Set,
+  // Timers created by agent code are tracked so they can be cleared when
+  // the execution ends, instead of firing into a finished run
+  const timers = new Map<number, ReturnType<typeof setTimeout>>();
+  let nextTimerId = 1;
+  const setTimer = (callback: () => void, ms: number) => {
+    const id = nextTimerId++;
+    timers.set(id, setTimeout(() => {
+      timers.delete(id);
+      if (finished) return;
+      try {
+        callback();
+      } catch (error) {
+        write('[ERROR] Uncaught in timer: ' + describeThrown(error));
+      }
+    }, ms));
+    return id;
   };
+  const clearTimer = (id: number) => {
+    clearTimeout(timers.get(id));
+    timers.delete(id);
+  };
+  const active = () => !finished;
+
+  // Sessions keep one context alive; otherwise each run gets a fresh one
+  let session: Session | undefined;
+  let context: vm.Context;
+  if (sessionId !== undefined) {
+    session = openSession(sessionId, sandboxNamespaces());
+    if (session.current) {
+      return {
+        executionId,
+        success: false,
+        status: 'error',
+        output,
+        error: `Session ${sessionId} is busy with another execution`,
+        elapsedMs: 0,
+      };
+    }
+    session.current = { log, setTimer, clearTimer, active };
+    session.executionCount++;
+    context = session.context;
+  } else {
+    // Create VM context with memory tools, console and timers. The context
+    // uses its own intrinsics (Object, Promise, JSON, ...), not the host's.
+    context = createSandboxContext({ namespaces: sandboxNamespaces(), log, setTimer, clearTimer, active });
+  }
+
+  let deadline: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+
+  try {
+    // In a session, top-level declarations must outlive the wrapper
+    const { prelude, body } = session
+      ? await hoistTopLevelDeclarations(code)
+      : { prelude: '', body: code };
 
-  // Create VM context
-  const context = vm.createContext(sandbox);
+    // Injected values are parameters of an outer function, so agent code
+    // can still shadow them with its own declarations
+    const names = Object.keys(globals);
+    for (const name of names) {
+      if (!/^[A-Za-z_$][\w$]*$/.test(name)) throw new Error(`Invalid global name: ${name}`);
+    }
+    const values = names.map(name => JSON.stringify(globals[name]) ?? 'undefined');
 
-  // Wrap code in async IIFE to support top-level await
-  const wrappedCode = `
-    (async () => {
-      ${code}
-    })();
+    // Wrap code in async IIFE to support top-level await
+    const wrappedCode = `${prelude}
+    ((${names.join(', ')}) => (async () => {
+      ${body}
+    })())(${values.join(', ')});
   `;
 
-  try {
     // Compile and run the code
     const script = new vm.Script(wrappedCode, {
       filename: 'agent-code.js',
     });
 
-    // Execute with timeout
-    const resultPromise = script.runInContext(context, {
-      timeout: timeoutMs,
+    // Execute with timeout (covers the synchronous part only). In a session,
+    // the code runs as this execution's, so its calls reach only this run.
+    const run = () => script.runInContext(context, { timeout: timeoutMs }) as Promise<unknown>;
+    const resultPromise = session ? session.enter(run) : run();
+
+    // Enforce the same limit, measured from the start, on async completion
+    const interrupted = new Promise<never>((_, reject) => {
+      const remainingMs = Math.max(0, timeoutMs - (Date.now() - startTime));
+      deadline = setTimeout(
+        () => reject(new ExecutionInterrupt('timeout', `Execution timed out after ${timeoutMs}ms`)),
+        remainingMs
+      );
+      if (signal) {
+        onAbort = () => reject(new ExecutionInterrupt('aborted', 'Execution aborted'));
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
     });
 
     // Wait for async completion
-    await resultPromise;
+    const value = await Promise.race([resultPromise, interrupted]);
+    const serialize = () => serializeSandboxValue(context, value, timeoutMs - (Date.now() - startTime));
+    const json = session ? session.enter(serialize) : serialize();
 
     const elapsedMs = Date.now() - startTime;
 
     return {
+      executionId,
       success: true,
+      status: 'success',
       output,
+      ...(budget.dropped && { droppedOutput: budget.dropped }),
+      ...(json !== undefined && { returnValue: JSON.parse(json) as unknown }),
       elapsedMs,
     };
   } catch (error) {
     const elapsedMs = Date.now() - startTime;
-    const errorMessage = error instanceof Error ? error.message : String(error);
+    const errorMessage = describeThrown(error);
+    const status = errorStatus(error);
+    const errorCode = status === 'error' ? thrownCode(error) : undefined;
 
     return {
+      executionId,
       success: false,
+      status,
       output,
+      ...(budget.dropped && { droppedOutput: budget.dropped }),
       error: errorMessage,
+      ...(errorCode !== undefined && { errorCode }),
       elapsedMs,
     };
+  } finally {
+    finished = true;
+    if (session) {
+      session.current = null;
+      session.lastUsedAt = Date.now();
+    }
+    clearTimeout(deadline);
+    if (onAbort) signal?.removeEventListener('abort', onAbort);
+    for (const timer of timers.values()) clearTimeout(timer);
+    timers.clear();
   }
 }
 
 /**
- * Format a value for console output
+ * Namespaces mounted at runtime, e.g. generated wrappers for upstream servers
+ */
+const mountedNamespaces = new Map<string, Record<string, HostMethod>>();
+
+/**
+ * Expose a module's functions to agent code as a sandbox global
+ *
+ * Non-function exports are ignored, so a generated `operations` module can
+ * be passed as-is. Mounting `memory` replaces the built-in wrappers.
+ *
+ * @example
+ * import * as notes from '../servers/notes/operations.js';
+ * mountNamespace('notes', notes);
+ * await executeCode(`console.log(await notes.listNotes())`);
  */
-function formatValue(value: unknown): string {
-  if (value === null) return 'null';
-  if (value === undefined) return 'undefined';
-  if (typeof value === 'string') return value;
-  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
-  if (Array.isArray(value)) return JSON.stringify(value, null, 2);
-  if (typeof value === 'object') return JSON.stringify(value, null, 2);
-  return String(value);
+export function mountNamespace(name: string, methods: Record<string, unknown>): void {
+  if (!/^[A-Za-z_$][\w$]*$/.test(name)) {
+    throw new Error(`Invalid namespace name: ${name}`);
+  }
+  const functions: Record<string, HostMethod> = {};
+  for (const [key, value] of Object.entries(methods)) {
+    // Arguments reach the function unchecked; generated wrappers pass them
+    // on to the server, which checks them against the tool's input schema
+    if (typeof value === 'function') functions[key] = value as HostMethod;
+  }
+  mountedNamespaces.set(name, functions);
+}
+
+/**
+ * Remove a namespace added with mountNamespace()
+ *
+ * @returns Whether the namespace was mounted
+ */
+export function unmountNamespace(name: string): boolean {
+  return mountedNamespaces.delete(name);
+}
+
+/**
+ * Host APIs mounted as sandbox globals
+ *
+ * Every server in the client registry gets a global. Servers without
+ * mounted wrappers expose a generic `callTool(toolName, params)`.
+ */
+export function sandboxNamespaces(): SandboxHost['namespaces'] {
+  const registered = listMCPNamespaces()
+    .filter(name => name !== MEMORY_NAMESPACE)
+    .map(name => [
+      name,
+      {
+        callTool: (toolName: unknown, params: unknown = {}) => {
+          if (typeof toolName !== 'string') {
+            throw new ValidationError('"toolName" must be a string');
+          }
+          if (params === null || typeof params !== 'object' || Array.isArray(params)) {
+            throw new ValidationError('"params" must be an object');
+          }
+          return callNamespacedTool(name, toolName, params as Record<string, unknown>);
+        },
+      },
+    ]);
+
+  return {
+    ...Object.fromEntries(registered),
+    [MEMORY_NAMESPACE]: {
+      readGraph: checkedWrapper(memory.readGraph),
+      createEntities: checkedWrapper(memory.createEntities),
+      createRelations: checkedWrapper(memory.createRelations),
+      addObservations: checkedWrapper(memory.addObservations),
+      deleteEntities: checkedWrapper(memory.deleteEntities),
+      deleteObservations: checkedWrapper(memory.deleteObservations),
+      deleteRelations: checkedWrapper(memory.deleteRelations),
+      searchNodes: checkedWrapper(memory.searchNodes),
+      openNodes: checkedWrapper(memory.openNodes),
+      queryNodes: checkedWrapper(memory.queryNodes),
+      neighbors: checkedWrapper(memory.neighbors),
+      shortestPath: checkedWrapper(memory.shortestPath),
+      subgraph: checkedWrapper(memory.subgraph),
+      connectedComponents: checkedWrapper(memory.connectedComponents),
+      getAttributes: checkedWrapper(memory.getAttributes),
+      setAttribute: checkedWrapper(memory.setAttribute),
+      incrementAttribute: checkedWrapper(memory.incrementAttribute),
+    },
+    ...Object.fromEntries(mountedNamespaces),
+  };
+}
+
+/**
+ * A memory wrapper as a HostMethod. The wrappers check their arguments
+ * against the schemas in schema.ts and throw a ValidationError on anything
+ * else, so they can take whatever agent code passes.
+ */
+function checkedWrapper<A extends unknown[]>(wrapper: (...args: A) => unknown): HostMethod {
+  return (...args) => wrapper(...(args as A));
+}
+
+/**
+ * The TraceOptions of a `trace` option
+ */
+function traceOptions(trace: ExecutionOptions['trace']): TraceOptions {
+  return typeof trace === 'object' ? trace : {};
+}
+
+/**
+ * Apply a text redaction to every string in a JSON-like value, keys included
+ */
+function redactStrings<T>(value: T, redact: (text: string) => string): T {
+  if (typeof value === 'string') return redact(value) as T;
+  if (Array.isArray(value)) return value.map(item => redactStrings(item, redact)) as T;
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [redact(key), redactStrings(item, redact)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Classify a thrown value into an execution status
+ */
+function errorStatus(error: unknown): ExecutionStatus {
+  if (error instanceof ExecutionInterrupt) return error.status;
+  if (
+    types.isNativeError(error) &&
+    Object.getOwnPropertyDescriptor(error, 'code')?.value === 'ERR_SCRIPT_EXECUTION_TIMEOUT'
+  ) {
+    return 'timeout';
+  }
+  return 'error';
 }
@@ -0,0 +1,215 @@
+/**
+ * Persistent Sandbox Sessions
+ *
+ * A session keeps one vm context alive across execute_code calls, so
+ * agent code can build intermediate data once and reuse it later:
+ *
+ *   // call 1 (session_id: "triage")
+ *   const inactive = (await memory.readGraph()).entities.filter(...);
+ *
+ *   // call 2 (session_id: "triage")
+ *   console.log(inactive.length);
+ *
+ * Agent code still runs inside an async function (for top-level await),
+ * so top-level declarations are rewritten into global assignments before
+ * running. Sessions expire after an idle TTL.
+ *
+ * Calls from the context are tied to the run whose code made them: each
+ * run enters its hooks into async context, and its timers and promises
+ * carry them along. A callback left over from an earlier run therefore
+ * cannot call tools or write output while a later run is using the session.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type vm from 'node:vm';
+import { createSandboxContext, type ConsoleLevel, type SandboxHost } from './bridge.js';
+
+/** Per-execution handlers a session forwards console and timer calls to */
+export type ExecutionHooks = Pick<SandboxHost, 'log' | 'setTimer' | 'clearTimer' | 'active'>;
+
+/** Hooks of the run whose code (or async continuation) is executing */
+const runHooks = new AsyncLocalStorage<ExecutionHooks>();
+
+export interface SessionInfo {
+  id: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  executionCount: number;
+  busy: boolean;
+}
+
+/**
+ * A vm context that survives between executions
+ */
+export class Session {
+  readonly context: vm.Context;
+  /** Hooks of the execution currently using the session, if any */
+  current: ExecutionHooks | null = null;
+  readonly createdAt = Date.now();
+  lastUsedAt = Date.now();
+  executionCount = 0;
+
+  constructor(readonly id: string, namespaces: SandboxHost['namespaces']) {
+    // Only the current run's own code reaches its hooks
+    const hooks = () => {
+      const caller = runHooks.getStore();
+      return caller !== undefined && caller === this.current ? caller : undefined;
+    };
+    this.context = createSandboxContext({
+      namespaces,
+      log: (level: ConsoleLevel, args: unknown[]) => hooks()?.log(level, args),
+      setTimer: (callback, ms) => hooks()?.setTimer(callback, ms) ?? 0,
+      clearTimer: timerId => hooks()?.clearTimer(timerId),
+      active: () => hooks()?.active() ?? false,
+    });
+  }
+
+  /**
+   * Run `fn` as part of the current execution, so calls made by the code it
+   * starts, including timers and async continuations, belong to that run
+   */
+  enter<T>(fn: () => T): T {
+    if (!this.current) throw new Error(`Session ${this.id} has no execution in progress`);
+    return runHooks.run(this.current, fn);
+  }
+}
+
+const DEFAULT_IDLE_TTL_MS = 15 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+const sessions = new Map<string, Session>();
+let idleTtlMs = DEFAULT_IDLE_TTL_MS;
+let sweeper: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Set how long an unused session is kept (default: 15 minutes)
+ */
+export function setSessionIdleTtl(ms: number): void {
+  idleTtlMs = ms;
+}
+
+/**
+ * Get an existing session or create a new one
+ *
+ * @param id - Session identifier chosen by the caller
+ * @param namespaces - Host APIs to mount when creating the context
+ */
+export function openSession(id: string, namespaces: SandboxHost['namespaces']): Session {
+  sweepExpiredSessions();
+
+  const existing = sessions.get(id);
+  if (existing) return existing;
+
+  const session = new Session(id, namespaces);
+  sessions.set(id, session);
+
+  if (!sweeper) {
+    sweeper = setInterval(sweepExpiredSessions, SWEEP_INTERVAL_MS);
+    sweeper.unref();
+  }
+  return session;
+}
+
+/**
+ * List live sessions, oldest first
+ */
+export function listSessions(): SessionInfo[] {
+  sweepExpiredSessions();
+  return Array.from(sessions.values()).map(session => ({
+    id: session.id,
+    createdAt: new Date(session.createdAt).toISOString(),
+    lastUsedAt: new Date(session.lastUsedAt).toISOString(),
+    expiresAt: new Date(session.lastUsedAt + idleTtlMs).toISOString(),
+    executionCount: session.executionCount,
+    busy: session.current !== null,
+  }));
+}
+
+/**
+ * Destroy a session and release its context
+ *
+ * @returns true if the session existed
+ */
+export function destroySession(id: string): boolean {
+  return sessions.delete(id);
+}
+
+function sweepExpiredSessions(): void {
+  const now = Date.now();
+  for (const [id, session] of sessions) {
+    if (!session.current && now - session.lastUsedAt > idleTtlMs) {
+      sessions.delete(id);
+    }
+  }
+  if (sessions.size === 0 && sweeper) {
+    clearInterval(sweeper);
+    sweeper = null;
+  }
+}
+
+/**
+ * Rewrite top-level declarations so they outlive the async wrapper
+ *
+ * `const x = 1` becomes `x = 1` with `var x` declared on the context's
+ * global scope, so later calls in the same session can read `x`.
+ * Function declarations are copied onto globalThis; classes become
+ * class expressions. Nested declarations are left alone.
+ *
+ * @returns The `var` prelude and the rewritten body
+ */
+export async function hoistTopLevelDeclarations(code: string): Promise<{ prelude: string; body: string }> {
+  const { default: ts } = await import('typescript');
+  const source = ts.createSourceFile('agent-code.js', code, ts.ScriptTarget.ES2022, true, ts.ScriptKind.JS);
+
+  const names = new Set<string>();
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+  const exports: string[] = [];
+
+  const collectNames = (name: import('typescript').BindingName) => {
+    if (ts.isIdentifier(name)) {
+      names.add(name.text);
+      return;
+    }
+    for (const element of name.elements) {
+      if (!ts.isOmittedExpression(element)) collectNames(element.name);
+    }
+  };
+
+  for (const statement of source.statements) {
+    if (ts.isVariableStatement(statement)) {
+      const isVar = !(statement.declarationList.flags & ts.NodeFlags.BlockScoped);
+      const assignments: string[] = [];
+      for (const declaration of statement.declarationList.declarations) {
+        collectNames(declaration.name);
+        const target = declaration.name.getText(source);
+        if (declaration.initializer) {
+          assignments.push(`(${target} = ${declaration.initializer.getText(source)});`);
+        } else if (!isVar && ts.isIdentifier(declaration.name)) {
+          assignments.push(`(${target} = undefined);`);
+        }
+      }
+      edits.push({ start: statement.getStart(source), end: statement.getEnd(), text: assignments.join(' ') });
+    } else if (ts.isFunctionDeclaration(statement) && statement.name) {
+      names.add(statement.name.text);
+      exports.push(`globalThis[${JSON.stringify(statement.name.text)}] = ${statement.name.text};`);
+    } else if (ts.isClassDeclaration(statement) && statement.name) {
+      names.add(statement.name.text);
+      edits.push({
+        start: statement.getStart(source),
+        end: statement.getEnd(),
+        text: `(${statement.name.text} = ${statement.getText(source)});`,
+      });
+    }
+  }
+
+  let body = code;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    body = body.slice(0, edit.start) + edit.text + body.slice(edit.end);
+  }
+
+  return {
+    prelude: names.size > 0 ? `var ${Array.from(names).join(', ')};` : '',
+    body: exports.join(' ') + '\n' + body,
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * Reusable Skills
+ *
+ * A skill is a named, proven piece of sandbox code saved to disk so it can
+ * be run again without the model rewriting it. Each skill declares the
+ * parameters it accepts; arguments are validated and injected into the
+ * sandbox as `args`.
+ *
+ * Skills are stored one JSON file per skill:
+ *
+ *   workspace/skills/mark-inactive-processed.json
+ *
+ * @example
+ * const library = new SkillLibrary('./workspace/skills');
+ * await library.save({
+ *   name: 'mark-processed',
+ *   description: 'Mark all records with a given status as processed',
+ *   parameters: { status: { type: 'string', required: true } },
+ *   code: `
+ *     const { entities } = await memory.searchNodes('status: ' + args.status);
+ *     await memory.addObservations(entities.map(e => ({ entityName: e.name, contents: ['processed: true'] })));
+ *     console.log('Marked', entities.length);
+ *   `,
+ * });
+ * await library.run('mark-processed', { status: 'inactive' });
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import vm from 'node:vm';
+import { executeCode, type ExecutionOptions, type ExecutionResult, type SourceLanguage } from './sandbox.js';
+import { transpileAgentCode } from './typescript.js';
+
+export type SkillParameterType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+export interface SkillParameter {
+  type: SkillParameterType;
+  description?: string;
+  required?: boolean;
+  default?: unknown;
+}
+
+export interface SkillDefinition {
+  name: string;
+  description: string;
+  parameters?: Record<string, SkillParameter>;
+  code: string;
+  /** Language of `code` (default: 'typescript', as with executeCode) */
+  language?: SourceLanguage;
+}
+
+export interface Skill extends SkillDefinition {
+  parameters: Record<string, SkillParameter>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const SKILL_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+/**
+ * Directory-backed collection of skills
+ */
+export class SkillLibrary {
+  constructor(readonly directory: string) {}
+
+  /**
+   * Save a skill, replacing any existing skill with the same name
+   *
+   * @throws If the name is invalid or the code does not compile
+   */
+  async save(definition: SkillDefinition): Promise<Skill> {
+    const { name, description, parameters = {}, code, language } = definition;
+    if (!SKILL_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid skill name "${name}": use letters, digits, "-" and "_"`);
+    }
+    // Compiled the way executeCode will run it
+    let source = code;
+    if (language !== 'javascript') {
+      const transpiled = await transpileAgentCode(code);
+      if (transpiled.diagnostics.length > 0) {
+        throw new Error(`Skill "${name}" does not compile: ${transpiled.diagnostics[0]}`);
+      }
+      source = transpiled.code;
+    }
+    try {
+      new vm.Script(`(async () => {\n${source}\n})`, { filename: `${name}.js` });
+    } catch (error) {
+      throw new Error(`Skill "${name}" does not compile: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const existing = await this.get(name);
+    const now = new Date().toISOString();
+    const skill: Skill = {
+      name,
+      description,
+      parameters,
+      code,
+      ...(language !== undefined && { language }),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    await mkdir(this.directory, { recursive: true });
+    const filePath = this.pathFor(name);
+    // Unique per write, so overlapping saves never share a temp file
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    await writeFile(tempPath, JSON.stringify(skill, null, 2), 'utf-8');
+    await rename(tempPath, filePath);
+    return skill;
+  }
+
+  /**
+   * Load a skill by name
+   *
+   * @returns The skill, or null if it does not exist
+   */
+  async get(name: string): Promise<Skill | null> {
+    if (!SKILL_NAME_PATTERN.test(name)) return null;
+    try {
+      return JSON.parse(await readFile(this.pathFor(name), 'utf-8')) as Skill;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  /**
+   * List all saved skills, sorted by name
+   */
+  async list(): Promise<Skill[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    const skills = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.get(file.slice(0, -'.json'.length)))
+    );
+    return skills
+      .filter((skill): skill is Skill => skill !== null)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Run a skill with the given arguments
+   *
+   * Pass a skill loaded with get() to run exactly that version, even if
+   * the skill is saved again while it runs.
+   *
+   * @throws If the skill does not exist or the arguments are invalid
+   */
+  async run(
+    nameOrSkill: string | Skill,
+    args: Record<string, unknown> = {},
+    options: ExecutionOptions = {}
+  ): Promise<ExecutionResult> {
+    const skill = typeof nameOrSkill === 'string' ? await this.get(nameOrSkill) : nameOrSkill;
+    if (!skill) {
+      throw new Error(`Unknown skill: ${nameOrSkill}`);
+    }
+    const validated = validateSkillArgs(skill, args);
+    return executeCode(skill.code, {
+      ...options,
+      ...(skill.language !== undefined && { language: skill.language }),
+      globals: { ...options.globals, args: validated },
+    });
+  }
+
+  private pathFor(name: string): string {
+    return path.join(this.directory, `${name}.json`);
+  }
+}
+
+/**
+ * Check arguments against a skill's parameters and apply defaults
+ *
+ * @throws Listing every missing, unknown or mistyped argument
+ */
+export function validateSkillArgs(
+  skill: Pick<Skill, 'name' | 'parameters'>,
+  args: Record<string, unknown>
+): Record<string, unknown> {
+  const problems: string[] = [];
+  const result: Record<string, unknown> = {};
+
+  for (const key of Object.keys(args)) {
+    if (!Object.hasOwn(skill.parameters, key)) problems.push(`unknown argument "${key}"`);
+  }
+
+  for (const [key, parameter] of Object.entries(skill.parameters)) {
+    const value = Object.hasOwn(args, key) ? args[key] : parameter.default;
+    if (value === undefined) {
+      if (parameter.required) problems.push(`missing required argument "${key}"`);
+      continue;
+    }
+    const actual = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+    if (actual !== parameter.type) {
+      problems.push(`argument "${key}" should be ${parameter.type}, got ${actual}`);
+      continue;
+    }
+    result[key] = value;
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid arguments for skill "${skill.name}": ${problems.join('; ')}`);
+  }
+  return result;
+}
+
+/**
+ * One-line signature for listings, e.g. `mark-processed(status: string, limit?: number)`
+ */
+export function formatSkillSignature(skill: Pick<Skill, 'name' | 'parameters'>): string {
+  const params = Object.entries(skill.parameters).map(
+    ([key, parameter]) => `${key}${parameter.required ? '' : '?'}: ${parameter.type}`
+  );
+  return `${skill.name}(${params.join(', ')})`;
+}
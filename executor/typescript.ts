@@ -0,0 +1,138 @@
+/**
+ * TypeScript Support
+ *
+ * Agent code may be written in TypeScript (plain JavaScript is valid
+ * input too). It is transpiled before it runs, and syntax errors come back
+ * as compiler diagnostics instead of a bare SyntaxError from the sandbox.
+ *
+ * With type checking on, the code is also checked against the wrapper
+ * declarations of each namespace (`servers/<name>/operations.ts` and the
+ * types it uses, or their compiled `.d.ts`), so mistakes such as a
+ * misspelled `entityName` are caught before anything runs. Namespaces
+ * without wrappers and injected globals are typed as `any`.
+ */
+
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type ts from 'typescript';
+
+export interface TypeCheckOptions {
+  /** Sandbox globals mounted for the execution, e.g. `memory` */
+  namespaces: string[];
+  /** Names of injected variables */
+  globals?: string[];
+  /** Ignore unknown names, e.g. variables defined by earlier calls in a session */
+  allowUnknownNames?: boolean;
+}
+
+const SERVERS_DIR = fileURLToPath(new URL('../servers/', import.meta.url));
+
+/** Path of the in-memory file the agent code is checked as */
+const AGENT_FILE = path.join(path.dirname(fileURLToPath(import.meta.url)), 'agent-code.ts');
+
+/** Globals that exist in every sandbox (see bridge.ts) */
+const SANDBOX_DECLARATIONS = `
+declare const console: {
+  log(...data: unknown[]): void;
+  error(...data: unknown[]): void;
+  warn(...data: unknown[]): void;
+};
+declare function setTimeout(callback: (...args: any[]) => void, ms?: number, ...args: any[]): number;
+declare function clearTimeout(id: number | undefined): void;
+`;
+
+/** "Cannot find name" diagnostics, skipped when unknown names are allowed */
+const UNKNOWN_NAME_CODES = new Set([2304, 2552]);
+
+/** Parsed declaration files, shared by every check */
+const sourceFiles = new Map<string, ts.SourceFile>();
+
+/**
+ * Transpile agent code to JavaScript
+ *
+ * @returns The JavaScript, and syntax errors formatted as
+ *   `Line 3, column 5: Expression expected. (TS1109)`
+ */
+export async function transpileAgentCode(code: string): Promise<{ code: string; diagnostics: string[] }> {
+  const { default: typescript } = await import('typescript');
+  const { outputText, diagnostics = [] } = typescript.transpileModule(code, {
+    fileName: 'agent-code.ts',
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: typescript.ScriptTarget.ES2022,
+      module: typescript.ModuleKind.ESNext,
+    },
+  });
+  return { code: outputText, diagnostics: diagnostics.map(d => formatDiagnostic(typescript, d, 0)) };
+}
+
+/**
+ * Type-check agent code against the sandbox's namespaces
+ *
+ * The code is checked as the body of an async function, like it runs.
+ *
+ * @returns Formatted diagnostics, empty when the code type-checks
+ */
+export async function typeCheckAgentCode(code: string, options: TypeCheckOptions): Promise<string[]> {
+  const { default: typescript } = await import('typescript');
+
+  const header = [
+    ...options.namespaces.filter(isIdentifier).map(name => {
+      const dir = path.join(SERVERS_DIR, name);
+      const typed = ['operations.d.ts', 'operations.ts'].some(file => existsSync(path.join(dir, file)));
+      const type = typed ? `typeof import(${JSON.stringify(path.join(dir, 'operations.js'))})` : 'any';
+      return `declare const ${name}: ${type};`;
+    }),
+    ...(options.globals ?? []).filter(isIdentifier).map(name => `declare const ${name}: any;`),
+    SANDBOX_DECLARATIONS,
+    'async function agentCode() {',
+  ].join('\n');
+  const source = `${header}\n${code}\n}\n`;
+  const headerLines = header.split('\n').length;
+
+  const compilerOptions: ts.CompilerOptions = {
+    target: typescript.ScriptTarget.ES2022,
+    module: typescript.ModuleKind.ESNext,
+    moduleResolution: typescript.ModuleResolutionKind.Bundler,
+    lib: ['lib.es2022.d.ts'],
+    types: [],
+    noEmit: true,
+    skipLibCheck: true,
+  };
+  const host = typescript.createCompilerHost(compilerOptions);
+  const { getSourceFile, fileExists, readFile } = host;
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    if (fileName === AGENT_FILE) {
+      return typescript.createSourceFile(fileName, source, languageVersion, true);
+    }
+    let file = sourceFiles.get(fileName);
+    if (!file) {
+      file = getSourceFile.call(host, fileName, languageVersion, ...rest);
+      if (file) sourceFiles.set(fileName, file);
+    }
+    return file;
+  };
+  host.fileExists = fileName => fileName === AGENT_FILE || fileExists.call(host, fileName);
+  host.readFile = fileName => (fileName === AGENT_FILE ? source : readFile.call(host, fileName));
+
+  const program = typescript.createProgram([AGENT_FILE], compilerOptions, host);
+  const agentFile = program.getSourceFile(AGENT_FILE)!;
+  return [...program.getSyntacticDiagnostics(agentFile), ...program.getSemanticDiagnostics(agentFile)]
+    .filter(d => !(options.allowUnknownNames && UNKNOWN_NAME_CODES.has(d.code)))
+    .map(d => formatDiagnostic(typescript, d, headerLines));
+}
+
+/**
+ * Format a diagnostic with its position in the agent's code
+ */
+function formatDiagnostic(typescript: typeof ts, diagnostic: ts.Diagnostic, lineOffset: number): string {
+  const message = typescript.flattenDiagnosticMessageText(diagnostic.messageText, ' ');
+  if (!diagnostic.file || diagnostic.start === undefined) return `${message} (TS${diagnostic.code})`;
+  const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+  return `Line ${line + 1 - lineOffset}, column ${character + 1}: ${message} (TS${diagnostic.code})`;
+}
+
+function isIdentifier(name: string): boolean {
+  return /^[A-Za-z_$][\w$]*$/.test(name);
+}
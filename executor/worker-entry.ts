@@ -0,0 +1,76 @@
+/**
+ * Worker Thread Entry Point
+ *
+ * Runs inside a worker thread started by executeInWorker(). The agent code
+ * executes in the regular vm sandbox, but namespace calls are forwarded to
+ * the host thread over the parent port, where the real MCP clients live.
+ */
+
+import { parentPort, workerData } from 'node:worker_threads';
+import { executeCode, mountNamespace } from './sandbox.js';
+import type { HostMessage, WorkerData, WorkerMessage } from './worker.js';
+
+const port = parentPort!;
+const { code, timeoutMs, globals, maxOutputChars, maxOutputLines, namespaces } = workerData as WorkerData;
+
+function post(message: WorkerMessage): void {
+  port.postMessage(message);
+}
+
+let nextId = 1;
+const pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+
+port.on('message', (message: HostMessage) => {
+  const call = pending.get(message.id);
+  if (!call) return;
+  pending.delete(message.id);
+  if (message.type === 'callResult') {
+    call.resolve(message.result);
+  } else {
+    // Rebuilt with the host error's name and code, which the bridge passes on to agent code
+    const { message: text, name, code } = message.error;
+    const error = new Error(text);
+    if (name) error.name = name;
+    call.reject(code === undefined ? error : Object.assign(error, { code }));
+  }
+});
+
+/**
+ * A stand-in for a host method that asks the host thread to run it
+ */
+function bridgeMethod(namespace: string, method: string) {
+  return (...args: unknown[]) => {
+    const id = nextId++;
+    return new Promise<unknown>((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      try {
+        post({ type: 'call', id, namespace, method, args });
+      } catch (error) {
+        pending.delete(id);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  };
+}
+
+// Mirror every host namespace, replacing the worker's own memory wrappers
+for (const [namespace, methods] of Object.entries(namespaces)) {
+  mountNamespace(
+    namespace,
+    Object.fromEntries(methods.map(method => [method, bridgeMethod(namespace, method)]))
+  );
+}
+
+const result = await executeCode(code, {
+  timeoutMs,
+  globals,
+  maxOutputChars,
+  maxOutputLines,
+  isolation: 'vm',
+  // Transpiled and traced by the host
+  language: 'javascript',
+  trace: false,
+  onOutput: line => post({ type: 'output', line }),
+});
+post({ type: 'done', result });
+port.close();
@@ -0,0 +1,159 @@
+/**
+ * Worker Thread Isolation
+ *
+ * Runs each execution in its own worker thread so that runaway agent code
+ * cannot take down the MCP server process:
+ * - The worker's heap is capped with V8 resource limits
+ * - On timeout or abort the worker is terminated, which also stops tight
+ *   loops inside promise callbacks that the vm timeout cannot interrupt
+ * - Namespace calls (memory.*, generated server wrappers) are bridged back
+ *   to the host over message passing, so the worker never holds a
+ *   connection of its own
+ */
+
+import { AsyncResource } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import { Worker } from 'node:worker_threads';
+import { toBridgedError, type BridgedError } from './bridge.js';
+import { sandboxNamespaces, type ExecutionOptions, type ExecutionResult, type ExecutionStatus } from './sandbox.js';
+
+/** Data passed to the worker at startup */
+export interface WorkerData {
+  code: string;
+  timeoutMs: number;
+  globals?: Record<string, unknown>;
+  maxOutputChars?: number;
+  maxOutputLines?: number;
+  /** Method names per namespace, mirrored inside the worker */
+  namespaces: Record<string, string[]>;
+}
+
+/** Messages sent from the worker to the host */
+export type WorkerMessage =
+  | { type: 'output'; line: string }
+  | { type: 'call'; id: number; namespace: string; method: string; args: unknown[] }
+  | { type: 'done'; result: ExecutionResult };
+
+/** Messages sent from the host to the worker */
+export type HostMessage =
+  | { type: 'callResult'; id: number; result: unknown }
+  | { type: 'callError'; id: number; error: BridgedError };
+
+const DEFAULT_MAX_HEAP_MB = 128;
+
+/**
+ * Execute code in a dedicated worker thread
+ *
+ * Called by executeCode() when `isolation: 'worker'` is set.
+ */
+export function executeInWorker(
+  code: string,
+  options: ExecutionOptions = {}
+): Promise<ExecutionResult> {
+  const { timeoutMs = 30000, signal, maxHeapMb = DEFAULT_MAX_HEAP_MB, onOutput, executionId = randomUUID() } = options;
+  const output: string[] = [];
+  const startTime = Date.now();
+
+  if (signal?.aborted) {
+    return Promise.resolve({
+      executionId,
+      success: false,
+      status: 'aborted',
+      output,
+      error: 'Execution aborted before start',
+      elapsedMs: 0,
+    });
+  }
+
+  const namespaces = sandboxNamespaces();
+  const workerData: WorkerData = {
+    code,
+    timeoutMs,
+    globals: options.globals,
+    maxOutputChars: options.maxOutputChars,
+    maxOutputLines: options.maxOutputLines,
+    namespaces: Object.fromEntries(
+      Object.entries(namespaces).map(([name, methods]) => [name, Object.keys(methods)])
+    ),
+  };
+  const worker = new Worker(new URL('./worker-entry.js', import.meta.url), {
+    workerData,
+    resourceLimits: {
+      maxOldGenerationSizeMb: maxHeapMb,
+      maxYoungGenerationSizeMb: Math.max(4, Math.floor(maxHeapMb / 8)),
+    },
+  });
+
+  return new Promise<ExecutionResult>(resolve => {
+    let settled = false;
+
+    const finish = (result: Omit<ExecutionResult, 'executionId' | 'output' | 'elapsedMs'>) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(deadline);
+      signal?.removeEventListener('abort', onAbort);
+      void worker.terminate();
+      resolve({ ...result, executionId, output, elapsedMs: Date.now() - startTime });
+    };
+
+    const fail = (status: ExecutionStatus, error: string) => {
+      finish({ success: false, status, error });
+    };
+
+    // Hard kill: the worker's own vm timeout may never get a chance to run
+    const deadline = setTimeout(
+      () => fail('timeout', `Execution timed out after ${timeoutMs}ms`),
+      timeoutMs
+    );
+    const onAbort = () => fail('aborted', 'Execution aborted');
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const post = (message: HostMessage) => {
+      if (!settled) worker.postMessage(message);
+    };
+
+    // Bound so bridged calls see per-execution clients (e.g. a dry-run overlay)
+    worker.on('message', AsyncResource.bind((message: WorkerMessage) => {
+      if (settled) return;
+      switch (message.type) {
+        case 'output':
+          output.push(message.line);
+          onOutput?.(message.line);
+          break;
+
+        case 'call': {
+          const method = Object.hasOwn(namespaces, message.namespace)
+            ? namespaces[message.namespace][message.method]
+            : undefined;
+          const call = method
+            ? Promise.resolve().then(() => method(...message.args))
+            : Promise.reject(new Error(`${message.namespace}.${message.method} is not a function`));
+          call.then(
+            result => post({ type: 'callResult', id: message.id, result }),
+            error => post({ type: 'callError', id: message.id, error: toBridgedError(error) })
+          );
+          break;
+        }
+
+        case 'done': {
+          const { executionId: _executionId, output: _output, elapsedMs: _elapsedMs, ...result } = message.result;
+          finish(result);
+          break;
+        }
+      }
+    }));
+
+    worker.on('error', (error: NodeJS.ErrnoException) => {
+      fail(
+        'error',
+        error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+          ? `Execution exceeded the ${maxHeapMb}MB heap limit`
+          : error.message
+      );
+    });
+
+    worker.on('exit', exitCode => {
+      fail('error', `Worker exited unexpectedly with code ${exitCode}`);
+    });
+  });
+}
@@ -0,0 +1,394 @@
+/**
+ * Wrapper Code Generator
+ *
+ * Turns an MCP server's tools/list into a `servers/<name>/` directory in
+ * the same shape as the hand-written memory wrappers:
+ *
+ *   types.ts       one input interface per tool (plus a result interface
+ *                  when the tool declares an output schema)
+ *   client.ts      setMCPClient / getMCPClient / callMCPTool, backed by the
+ *                  client registry under the server's namespace
+ *   operations.ts  one typed, documented wrapper per tool
+ *   index.ts       barrel re-exporting all of the above
+ *
+ * Tools with a single input property take it positionally, like
+ * `createEntities(entities)`; other tools take an input object.
+ */
+
+import type { ToolDefinition } from '../servers/memory/index.js';
+
+/** The subset of JSON Schema that tool input/output schemas use */
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  additionalProperties?: boolean | JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+}
+
+export interface GenerateOptions {
+  /** Where the tools came from, mentioned in the file headers */
+  source?: string;
+}
+
+const RESERVED_WORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do',
+  'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in',
+  'instanceof', 'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof',
+  'var', 'void', 'while', 'with', 'yield', 'let', 'static', 'implements', 'interface', 'package',
+  'private', 'protected', 'public', 'await', 'arguments', 'eval',
+]);
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/** Sandbox globals a generated namespace must not replace */
+const RESERVED_NAMESPACES = new Set(['memory', 'console', 'setTimeout', 'clearTimeout']);
+
+/** Marks a file as written by the generator, so it may be overwritten */
+export const GENERATED_NOTICE = 'Do not edit by hand; re-run `npm run generate` instead.';
+
+/**
+ * `create_entities` → `createEntities`
+ */
+export function toCamelCase(name: string): string {
+  const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const camel = words
+    .map((word, i) => (i === 0 ? word[0].toLowerCase() + word.slice(1) : word[0].toUpperCase() + word.slice(1)))
+    .join('');
+  const safe = /^[0-9]/.test(camel) ? `_${camel}` : camel;
+  return RESERVED_WORDS.has(safe) ? `${safe}_` : safe || '_';
+}
+
+/**
+ * `create_entities` → `CreateEntities`
+ */
+export function toPascalCase(name: string): string {
+  const camel = toCamelCase(name).replace(/_$/, '');
+  return camel[0].toUpperCase() + camel.slice(1);
+}
+
+/**
+ * Convert a JSON schema into a TypeScript type expression
+ */
+export function schemaToType(schema: JsonSchema | boolean | undefined, indent = ''): string {
+  if (schema === undefined || schema === true || typeof schema !== 'object') return 'unknown';
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (Array.isArray(schema.enum)) return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+
+  const union = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(union)) {
+    return union.map(member => parenthesize(schemaToType(member, indent))).join(' | ');
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.map(type => parenthesize(schemaToType({ ...schema, type }, indent))).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const item = schemaToType(schema.items, indent);
+      return /^[\w.]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+    }
+    case 'object':
+      return objectType(schema, indent);
+    default:
+      return schema.properties ? objectType(schema, indent) : 'unknown';
+  }
+}
+
+function parenthesize(type: string): string {
+  return type.includes('=>') ? `(${type})` : type;
+}
+
+function propertyKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+function objectType(schema: JsonSchema, indent: string): string {
+  const properties = Object.entries(schema.properties ?? {});
+  if (properties.length === 0) {
+    const extra = schema.additionalProperties;
+    return `Record<string, ${typeof extra === 'object' ? schemaToType(extra, indent) : 'unknown'}>`;
+  }
+
+  const inner = indent + '  ';
+  const required = new Set(schema.required ?? []);
+  const lines = ['{'];
+  for (const [name, property] of properties) {
+    if (property.description) lines.push(`${inner}/** ${docText(property.description)} */`);
+    const optional = required.has(name) ? '' : '?';
+    lines.push(`${inner}${propertyKey(name)}${optional}: ${schemaToType(property, inner)};`);
+  }
+  lines.push(`${indent}}`);
+  return lines.join('\n');
+}
+
+/**
+ * Make text safe to place inside a JSDoc block
+ */
+function docText(text: string): string {
+  return text.replace(/\*\//g, '*\\/').replace(/\s*\n\s*/g, ' ').trim();
+}
+
+/**
+ * A placeholder value for @example blocks, covering required fields only
+ */
+function exampleValue(schema: JsonSchema | undefined, key: string): string {
+  if (!schema) return 'undefined';
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return JSON.stringify(schema.enum[0]);
+  const union = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(union) && union.length > 0) return exampleValue(union[0], key);
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'string':
+      return `'${key}'`;
+    case 'number':
+    case 'integer':
+      return '1';
+    case 'boolean':
+      return 'true';
+    case 'null':
+      return 'null';
+    case 'array':
+      return `[${exampleValue(schema.items, key)}]`;
+    default: {
+      const required = (schema.required ?? []).filter(name => schema.properties?.[name]);
+      const fields = required.map(name => `${propertyKey(name)}: ${exampleValue(schema.properties![name], name)}`);
+      return fields.length > 0 ? `{ ${fields.join(', ')} }` : '{}';
+    }
+  }
+}
+
+interface ToolPlan {
+  tool: ToolDefinition;
+  functionName: string;
+  inputType: string;
+  resultType: string | null;
+  properties: Array<[string, JsonSchema]>;
+  /** Set when the single input property is passed positionally */
+  positional: { name: string; required: boolean } | null;
+}
+
+function planTool(tool: ToolDefinition): ToolPlan {
+  const schema = tool.inputSchema as JsonSchema;
+  const properties = Object.entries(schema.properties ?? {});
+  const required = new Set(schema.required ?? []);
+  const [only] = properties;
+  const positional =
+    properties.length === 1 && IDENTIFIER.test(only[0]) && !RESERVED_WORDS.has(only[0])
+      ? { name: only[0], required: required.has(only[0]) }
+      : null;
+
+  return {
+    tool,
+    functionName: toCamelCase(tool.name),
+    inputType: `${toPascalCase(tool.name)}Input`,
+    resultType: tool.outputSchema ? `${toPascalCase(tool.name)}Result` : null,
+    properties,
+    positional,
+  };
+}
+
+function fileHeader(title: string, serverName: string, options: GenerateOptions, body: string[]): string {
+  const source = options.source ? ` (${docText(options.source)})` : '';
+  return [
+    '/**',
+    ` * ${title}`,
+    ' *',
+    ` * Generated from the ${serverName} server's tools/list${source}.`,
+    ` * ${GENERATED_NOTICE}`,
+    ...(body.length > 0 ? [' *', ...body.map(line => (line ? ` * ${line}` : ' *'))] : []),
+    ' */',
+  ].join('\n');
+}
+
+function generateTypes(serverName: string, plans: ToolPlan[], options: GenerateOptions): string {
+  const blocks = [fileHeader(`Type definitions for the ${serverName} MCP server`, serverName, options, [])];
+  for (const plan of plans) {
+    const input = { ...(plan.tool.inputSchema as JsonSchema), type: 'object' };
+    blocks.push(
+      `/**\n * Input for ${docText(plan.tool.name)}\n */\n` +
+        (plan.properties.length > 0
+          ? `export interface ${plan.inputType} ${objectType(input, '')}`
+          : `export type ${plan.inputType} = ${objectType(input, '')};`)
+    );
+    if (plan.resultType) {
+      blocks.push(
+        `/**\n * Result of ${docText(plan.tool.name)}\n */\n` +
+          `export type ${plan.resultType} = ${schemaToType(plan.tool.outputSchema as JsonSchema)};`
+      );
+    }
+  }
+  return blocks.join('\n\n') + '\n';
+}
+
+function generateClient(serverName: string, options: GenerateOptions): string {
+  return [
+    fileHeader(`MCP client for the ${serverName} server`, serverName, options, [
+      `Calls go to the client registered for the "${serverName}" namespace.`,
+      'Set it before calling any wrapper:',
+      '',
+      '  setMCPClient(new StdioMCPClient({ command: ..., args: [...] }));',
+    ]),
+    '',
+    'import {',
+    '  registerMCPClient,',
+    '  getRegisteredMCPClient,',
+    '  callNamespacedTool,',
+    '  type MCPClientInterface,',
+    "} from '../memory/client.js';",
+    '',
+    `export const NAMESPACE = '${serverName}';`,
+    '',
+    'export function setMCPClient(client: MCPClientInterface): void {',
+    '  registerMCPClient(NAMESPACE, client);',
+    '}',
+    '',
+    'export function getMCPClient(): MCPClientInterface {',
+    '  return getRegisteredMCPClient(NAMESPACE);',
+    '}',
+    '',
+    '/**',
+    ' * Helper to call MCP tools with proper typing',
+    ' */',
+    'export async function callMCPTool<T>(',
+    '  toolName: string,',
+    '  params: Record<string, unknown>',
+    '): Promise<T> {',
+    '  return callNamespacedTool<T>(NAMESPACE, toolName, params);',
+    '}',
+    '',
+  ].join('\n');
+}
+
+function generateOperation(serverName: string, plan: ToolPlan): string {
+  const { tool, functionName, inputType, resultType, positional } = plan;
+  const schema = tool.inputSchema as JsonSchema;
+  const returnType = resultType ?? 'unknown';
+  const doc: string[] = [docText(tool.description ?? tool.name), ''];
+
+  let signature: string;
+  let params: string;
+  let exampleArgs: string;
+
+  if (plan.properties.length === 0) {
+    signature = '';
+    params = '{}';
+    exampleArgs = '';
+  } else if (positional) {
+    const property = schema.properties![positional.name];
+    const optional = positional.required ? '' : '?';
+    signature = `${positional.name}${optional}: ${inputType}['${positional.name}']`;
+    params = `{ ${positional.name} }`;
+    exampleArgs = positional.required ? exampleValue(property, positional.name) : '';
+    doc.push(`@param ${positional.name} - ${docText(property.description ?? `The ${positional.name} argument`)}`);
+  } else {
+    const allOptional = (schema.required ?? []).length === 0;
+    signature = `input${allOptional ? `: ${inputType} = {}` : `: ${inputType}`}`;
+    params = '{ ...input }';
+    exampleArgs = exampleValue({ ...schema, type: 'object' }, 'input');
+    doc.push(`@param input - Tool arguments (see ${inputType})`);
+  }
+  doc.push(`@returns The ${docText(tool.name)} result`, '', '@example', `await ${serverName}.${functionName}(${exampleArgs});`);
+
+  return [
+    '/**',
+    ...doc.map(line => (line ? ` * ${line}` : ' *')),
+    ' */',
+    `export async function ${functionName}(${signature}): Promise<${returnType}> {`,
+    `  return callMCPTool<${returnType}>(${JSON.stringify(tool.name)}, ${params});`,
+    '}',
+  ].join('\n');
+}
+
+function generateOperations(serverName: string, plans: ToolPlan[], options: GenerateOptions): string {
+  const typeNames = plans.flatMap(plan => [
+    ...(plan.properties.length > 0 ? [plan.inputType] : []),
+    ...(plan.resultType ? [plan.resultType] : []),
+  ]);
+  return [
+    fileHeader(`${toPascalCase(serverName)} Server Tool Wrappers`, serverName, options, [
+      'Each function calls one tool on the server with typed arguments.',
+    ]),
+    '',
+    "import { callMCPTool } from './client.js';",
+    typeNames.length > 0 ? `import type {\n${typeNames.map(name => `  ${name},`).join('\n')}\n} from './types.js';` : '',
+    '',
+    plans.map(plan => generateOperation(serverName, plan)).join('\n\n'),
+    '',
+  ].join('\n');
+}
+
+function generateIndex(serverName: string, plans: ToolPlan[], options: GenerateOptions): string {
+  const typeNames = plans.flatMap(plan => (plan.resultType ? [plan.inputType, plan.resultType] : [plan.inputType]));
+  const sections = [
+    fileHeader(`${toPascalCase(serverName)} Server Tool Wrappers`, serverName, options, [
+      'Usage:',
+      '',
+      `  import * as ${toCamelCase(serverName)} from './servers/${serverName}';`,
+      `  ${toCamelCase(serverName)}.setMCPClient(client);`,
+    ]),
+    '',
+  ];
+  if (typeNames.length > 0) {
+    sections.push('// Re-export all types', `export type {\n${typeNames.map(name => `  ${name},`).join('\n')}\n} from './types.js';`, '');
+  }
+  sections.push(
+    '// Re-export client utilities',
+    "export { setMCPClient, getMCPClient } from './client.js';",
+    '',
+    '// Re-export all operations',
+    `export {\n${plans.map(plan => `  ${plan.functionName},`).join('\n')}\n} from './operations.js';`,
+    ''
+  );
+  return sections.join('\n');
+}
+
+/**
+ * Generate the wrapper files for a server
+ *
+ * @param serverName - Directory and sandbox namespace name, e.g. `notes`
+ * @param tools - The server's tools/list result
+ * @returns File contents keyed by file name
+ */
+export function generateServerWrappers(
+  serverName: string,
+  tools: ToolDefinition[],
+  options: GenerateOptions = {}
+): Record<string, string> {
+  if (!IDENTIFIER.test(serverName) || RESERVED_WORDS.has(serverName)) {
+    throw new Error(`Invalid server name "${serverName}": it must be a valid JavaScript identifier`);
+  }
+  if (RESERVED_NAMESPACES.has(serverName)) {
+    throw new Error(`Invalid server name "${serverName}": it is already a sandbox global`);
+  }
+  const plans = tools.map(planTool);
+  const names = new Set<string>();
+  for (const plan of plans) {
+    if (names.has(plan.functionName)) {
+      throw new Error(`Tools map to the same wrapper name: ${plan.functionName}`);
+    }
+    names.add(plan.functionName);
+  }
+
+  return {
+    'types.ts': generateTypes(serverName, plans, options),
+    'client.ts': generateClient(serverName, options),
+    'operations.ts': generateOperations(serverName, plans, options),
+    'index.ts': generateIndex(serverName, plans, options),
+  };
+}
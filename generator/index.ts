@@ -0,0 +1,109 @@
+/**
+ * Wrapper Generator CLI
+ *
+ * Connects to an MCP server over stdio, reads its tools/list and writes
+ * typed wrappers to `servers/<name>/`:
+ *
+ *   npm run generate -- notes -- npx -y @acme/notes-mcp
+ *   npm run generate -- notes --out ./servers -- node ./notes-server.js
+ *
+ * Run `npm run build` afterwards; then register the server in the
+ * MCP_SERVERS_CONFIG file so the executor mounts it as the `notes` global.
+ */
+
+import { mkdir, readFile, readdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { StdioMCPClient, type StdioMCPClientOptions } from '../servers/memory/index.js';
+import { generateServerWrappers, GENERATED_NOTICE } from './codegen.js';
+
+export {
+  generateServerWrappers,
+  schemaToType,
+  toCamelCase,
+  toPascalCase,
+  type JsonSchema,
+  type GenerateOptions,
+} from './codegen.js';
+
+/**
+ * Generate wrappers for a running server and write them to disk
+ *
+ * An existing `<outDir>/<name>/` directory is only overwritten when every
+ * file in it was written by the generator.
+ *
+ * @returns Paths of the files written
+ */
+export async function generateFromServer(
+  serverName: string,
+  server: StdioMCPClientOptions,
+  outDir: string = path.resolve('servers')
+): Promise<string[]> {
+  const client = new StdioMCPClient({ ...server, clientName: 'code-mode-generator' });
+  try {
+    const tools = await client.listTools();
+    const files = generateServerWrappers(serverName, tools, {
+      source: [server.command, ...(server.args ?? [])].join(' '),
+    });
+
+    const dir = path.join(outDir, serverName);
+    await assertGenerated(dir, Object.keys(files));
+    await mkdir(dir, { recursive: true });
+    const written: string[] = [];
+    for (const [file, contents] of Object.entries(files)) {
+      const filePath = path.join(dir, file);
+      await writeFile(filePath, contents, 'utf-8');
+      written.push(filePath);
+    }
+    return written;
+  } finally {
+    await client.close();
+  }
+}
+
+/**
+ * Throw unless a directory is missing or holds only generated files
+ */
+async function assertGenerated(dir: string, files: string[]): Promise<void> {
+  let entries: string[];
+  try {
+    entries = await readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+  for (const entry of entries) {
+    const generated = files.includes(entry) && (await readFile(path.join(dir, entry), 'utf-8')).includes(GENERATED_NOTICE);
+    if (!generated) {
+      throw new Error(`${dir} holds ${entry}, which was not generated; refusing to overwrite the directory`);
+    }
+  }
+}
+
+function parseArgs(argv: string[]): { name: string; outDir?: string; server: StdioMCPClientOptions } {
+  const separator = argv.indexOf('--');
+  const own = separator === -1 ? argv : argv.slice(0, separator);
+  const [command, ...args] = separator === -1 ? [] : argv.slice(separator + 1);
+
+  let name: string | undefined;
+  let outDir: string | undefined;
+  for (let i = 0; i < own.length; i++) {
+    if (own[i] === '--out') outDir = own[++i];
+    else name = own[i];
+  }
+  if (!name || !command) {
+    throw new Error('Usage: npm run generate -- <name> [--out <dir>] -- <command> [args...]');
+  }
+  return { name, outDir, server: { command, args } };
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  try {
+    const { name, outDir, server } = parseArgs(process.argv.slice(2));
+    const written = await generateFromServer(name, server, outDir);
+    for (const file of written) console.log(`Wrote ${path.relative(process.cwd(), file)}`);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
@@ -26,33 +26,321 @@
  *   }
  */
 
+import { randomUUID } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
-import { executeCode } from '../executor/index.js';
-import { setMCPClient, MockMCPClient } from '../servers/memory/index.js';
-
-// Initialize with mock client for now
-// In production, this would connect to real MCP servers
-const mockClient = new MockMCPClient();
-setMCPClient(mockClient);
-
-// Pre-load test data (same 50 records from our experiment)
-const testEntities = [];
-for (let i = 1; i <= 50; i++) {
-  const id = i.toString().padStart(3, '0');
-  testEntities.push({
-    type: 'entity' as const,
-    name: `Record_${id}`,
-    entityType: 'TestRecord',
-    observations: [
-      'count: 0',
-      i % 3 === 0 ? 'status: inactive' : 'status: active',
-      `category: ${['A', 'B', 'C'][i % 3]}`,
+import {
+  executeCode,
+  listSessions,
+  destroySession,
+  setSessionIdleTtl,
+  mountNamespace,
+  SkillLibrary,
+  formatSkillSignature,
+  ExecutionHistory,
+  createExecutionRecord,
+  summarizeExecutionRecord,
+  type ExecutionOptions,
+  type ExecutionRecord,
+  type ExecutionResult,
+  type ExecutionStatus,
+} from '../executor/index.js';
+import { searchApis, formatApiResults } from '../servers/discovery.js';
+import {
+  setMCPClient,
+  getMCPClient,
+  registerMCPClient,
+  MockMCPClient,
+  StdioMCPClient,
+  JsonlMCPClient,
+  TokenizingMCPClient,
+  PiiTokenizer,
+  parsePiiPatterns,
+  applyGraphDiff,
+  summarizeGraphDiff,
+  isEmptyGraphDiff,
+  MutationJournal,
+  JournalingMCPClient,
+  summarizeToolCalls,
+  PolicyMCPClient,
+  QueryingMCPClient,
+  OverlayMCPClient,
+  loadPolicy,
+  type Policy,
+  DEFAULT_PII_PATTERNS,
+  type MCPClientInterface,
+  type StdioMCPClientOptions,
+} from '../servers/memory/index.js';
+
+// Connect to a real memory server when MEMORY_MCP_COMMAND is set, e.g.
+//   MEMORY_MCP_COMMAND=npx MEMORY_MCP_ARGS="-y @modelcontextprotocol/server-memory"
+// With only MEMORY_FILE_PATH set, read and write that JSONL file directly.
+// Otherwise fall back to the mock client with the experiment's test data.
+if (process.env.MEMORY_MCP_COMMAND) {
+  // The reference server has no query_nodes tool; answer it on the host
+  setMCPClient(
+    new QueryingMCPClient(
+      new StdioMCPClient({
+        command: process.env.MEMORY_MCP_COMMAND,
+        args: process.env.MEMORY_MCP_ARGS?.split(/\s+/).filter(Boolean) ?? [],
+        env: process.env.MEMORY_FILE_PATH ? { MEMORY_FILE_PATH: process.env.MEMORY_FILE_PATH } : {},
+      })
+    )
+  );
+} else if (process.env.MEMORY_FILE_PATH) {
+  setMCPClient(new JsonlMCPClient(process.env.MEMORY_FILE_PATH));
+} else {
+  const mockClient = new MockMCPClient();
+  setMCPClient(mockClient);
+
+  // Pre-load test data (same 50 records from our experiment)
+  const testEntities = [];
+  for (let i = 1; i <= 50; i++) {
+    const id = i.toString().padStart(3, '0');
+    testEntities.push({
+      type: 'entity' as const,
+      name: `Record_${id}`,
+      entityType: 'TestRecord',
+      observations: [
+        'count: 0',
+        i % 3 === 0 ? 'status: inactive' : 'status: active',
+        `category: ${['A', 'B', 'C'][i % 3]}`,
+      ],
+    });
+  }
+  mockClient.loadData({ entities: testEntities, relations: [] });
+}
+
+// With PII_TOKENIZE=1, emails and phone numbers in tool results reach agent
+// code only as tokens like [EMAIL_1]. PII_PATTERNS adds (and enables) custom
+// patterns as a JSON object of type → regex, e.g. {"SSN": "\\d{3}-\\d{2}-\\d{4}"}.
+const piiTokenizer = createPiiTokenizer();
+
+/**
+ * Build the tokenizer the PII_* settings ask for, if any
+ *
+ * @throws If PII_PATTERNS is invalid, naming the pattern at fault
+ */
+function createPiiTokenizer(): PiiTokenizer | null {
+  const { PII_TOKENIZE, PII_PATTERNS } = process.env;
+  if (PII_TOKENIZE !== '1' && PII_TOKENIZE !== 'true' && !PII_PATTERNS) return null;
+  try {
+    return new PiiTokenizer([...DEFAULT_PII_PATTERNS, ...(PII_PATTERNS ? parsePiiPatterns(PII_PATTERNS) : [])]);
+  } catch (error) {
+    throw new Error(`Invalid PII_PATTERNS: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Put a client behind the PII tokenizer when tokenization is enabled
+ */
+function withTokenization(client: MCPClientInterface): MCPClientInterface {
+  return piiTokenizer ? new TokenizingMCPClient(client, piiTokenizer) : client;
+}
+
+if (piiTokenizer) {
+  setMCPClient(withTokenization(getMCPClient()));
+}
+
+/** Console output and errors only ever show tokens */
+const redactOutput = piiTokenizer ? (text: string) => piiTokenizer.tokenizeText(text) : undefined;
+
+// Memory writes from execute_code, run_skill and commit_diff are journaled
+// so that a run can be reverted with undo_execution
+const journal = new MutationJournal();
+
+// Every execute_code and run_skill run is appended to AUDIT_LOG (default
+// workspace/audit-log.jsonl) and can be looked up with get_execution_history
+const history = new ExecutionHistory(process.env.AUDIT_LOG ?? path.resolve('workspace/audit-log.jsonl'));
+
+/**
+ * Append a finished run to the audit log; a failed write is logged to stderr
+ * and does not fail the run
+ */
+async function audit(source: string, code: string, options: ExecutionOptions, result: ExecutionResult, startedAt: Date) {
+  try {
+    await history.append(createExecutionRecord({ source, code, options, result, startedAt }));
+  } catch (error) {
+    console.error(`Could not write the audit log: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// POLICY_FILE points to a JSON policy that limits what agent code may do
+// with the memory server (see servers/memory/policy.ts). Loaded in main().
+let policy: Policy | undefined;
+
+// Idle sessions are discarded after SESSION_TTL_MS (default: 15 minutes)
+if (process.env.SESSION_TTL_MS) {
+  setSessionIdleTtl(Number(process.env.SESSION_TTL_MS));
+}
+
+/**
+ * Register the servers listed in MCP_SERVERS_CONFIG
+ *
+ * The file uses the same shape as .mcp.json:
+ *   { "mcpServers": { "notes": { "command": "npx", "args": ["-y", "@acme/notes-mcp"] } } }
+ *
+ * Each server becomes a sandbox global of the same name. With wrappers in
+ * servers/<name>/ (see `npm run generate`) the global has typed methods;
+ * otherwise it offers a generic `callTool(toolName, params)`.
+ */
+async function registerConfiguredServers(configPath: string): Promise<void> {
+  const config = JSON.parse(await readFile(configPath, 'utf-8')) as {
+    mcpServers?: Record<string, StdioMCPClientOptions>;
+  };
+
+  for (const [name, options] of Object.entries(config.mcpServers ?? {})) {
+    registerMCPClient(name, withTokenization(new StdioMCPClient(options)));
+
+    let operations: Record<string, unknown>;
+    try {
+      operations = await import(new URL(`../servers/${name}/operations.js`, import.meta.url).href);
+    } catch {
+      console.error(`Registered server "${name}" without wrappers (use ${name}.callTool). Run: npm run generate -- ${name} -- <command>`);
+      continue;
+    }
+    mountNamespace(name, operations);
+    console.error(`Registered server "${name}"`);
+  }
+}
+
+const STATUS_HEADINGS: Record<ExecutionStatus, string> = {
+  success: '✓ Code executed successfully',
+  error: '✗ Code execution failed',
+  timeout: '✗ Code execution timed out',
+  aborted: '✗ Code execution aborted',
+};
+
+/**
+ * Build the execute_code / run_skill response from an execution result
+ *
+ * The result is also attached as structuredContent, so callers can read
+ * the return value without parsing the text. The tool-call trace is only
+ * included, summarized in the text and in full in structuredContent, when
+ * `trace` is set.
+ */
+function formatExecutionResult(
+  result: ExecutionResult,
+  startTime: number,
+  details: string[] = [],
+  trace = false
+) {
+  const totalTime = Date.now() - startTime;
+  const { calls, ...untraced } = result;
+  const structuredContent = trace ? { ...result } : untraced;
+  const callSummary = trace && calls
+    ? ['', `Tool calls: ${calls.length}`, ...summarizeToolCalls(calls).map(line => `  ${line}`)]
+    : [];
+  const diagnostics = result.diagnostics
+    ? ['Diagnostics:', ...result.diagnostics.map(line => `  ${line}`), '']
+    : [];
+  const dropped = result.droppedOutput
+    ? [
+        `…output truncated: ${result.droppedOutput.lines.toLocaleString('en-US')} lines ` +
+          `(${result.droppedOutput.chars.toLocaleString('en-US')} chars) over the output budget were left out`,
+      ]
+    : [];
+  const returnValue = result.returnValue === undefined
+    ? []
+    : ['', 'Return value:', JSON.stringify(result.returnValue, null, 2)];
+  const diff = result.diff
+    ? [
+        '',
+        `Dry run, nothing applied: ${summarizeGraphDiff(result.diff)}`,
+        ...(isEmptyGraphDiff(result.diff)
+          ? []
+          : ['Review the diff below and pass it to commit_diff to apply it:', JSON.stringify(result.diff, null, 2)]),
+      ]
+    : [];
+
+  if (result.success) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: [
+            STATUS_HEADINGS.success,
+            `Execution ID: ${result.executionId}`,
+            `Execution time: ${result.elapsedMs}ms`,
+            `Total time: ${totalTime}ms`,
+            ...details,
+            '',
+            'Output:',
+            ...result.output.map(line => `  ${line}`),
+            ...dropped,
+            ...returnValue,
+            ...callSummary,
+            ...diff,
+          ].join('\n'),
+        },
+      ],
+      structuredContent,
+    };
+  }
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: [
+          STATUS_HEADINGS[result.status],
+          `Error: ${result.error}`,
+          ...(result.errorCode !== undefined ? [`Error code: ${result.errorCode}`] : []),
+          `Execution ID: ${result.executionId}`,
+          `Execution time: ${result.elapsedMs}ms`,
+          ...details,
+          '',
+          ...diagnostics,
+          'Partial output:',
+          ...result.output.map(line => `  ${line}`),
+          ...dropped,
+          ...callSummary,
+          ...diff,
+        ].join('\n'),
+      },
     ],
-  });
+    structuredContent,
+    isError: true,
+  };
+}
+
+function errorResponse(error: unknown, heading = 'Unexpected error') {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `${heading}: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Full get_execution_history response for one run
+ */
+function formatExecutionRecord(record: ExecutionRecord): string {
+  const lines = [
+    summarizeExecutionRecord(record),
+    `Finished: ${record.finishedAt}`,
+    `Output: ${record.outputLines} lines (${record.outputChars} chars)`,
+    `Options: ${JSON.stringify(record.options)}`,
+  ];
+  if (record.error !== undefined) lines.push(`Error: ${record.error}`);
+  if (record.errorCode !== undefined) lines.push(`Error code: ${record.errorCode}`);
+  if (record.mutations.length > 0) {
+    lines.push('', `Memory writes: ${record.mutations.length}`);
+    lines.push(
+      ...record.mutations.map(
+        m => `  ${m.tool} ${JSON.stringify(m.params)}${m.error !== undefined ? ` (failed: ${m.error})` : ''}`
+      )
+    );
+  }
+  lines.push('', 'Code:', record.code);
+  return lines.join('\n');
 }
-mockClient.loadData({ entities: testEntities, relations: [] });
 
 // Create MCP server
 const server = new McpServer({
@@ -63,95 +351,373 @@ const server = new McpServer({
 // Define the execute_code tool
 server.tool(
   'execute_code',
-  'Execute JavaScript code with access to memory operations. Use this for batch operations on records.',
+  'Execute TypeScript or JavaScript code with access to memory operations. Use this for batch operations on records.',
   {
     code: z.string().describe(
-      'JavaScript code to execute. Has access to `memory` object with methods: ' +
-      'readGraph(), createEntities([...]), searchNodes(query), openNodes([names]), ' +
-      'addObservations([...]), deleteEntities([names]), etc. ' +
-      'Use console.log() to output results.'
+      'TypeScript or JavaScript code to execute. Has access to the `memory` object (e.g. memory.readGraph(), ' +
+      'memory.openNodes([names])), plus one object per configured upstream server. Use search_apis to look up available methods and their types. ' +
+      'Use console.log() to output results, or `return` a value to get it back as JSON ' +
+      '(Maps become objects, Sets become arrays).'
+    ),
+    timeout_ms: z.number().optional().describe(
+      'Wall-clock timeout in milliseconds for the whole run, including awaited work (default: 30000)'
+    ),
+    isolation: z.enum(['vm', 'worker']).optional().describe(
+      "Where the code runs: 'worker' (default) for a separate thread with a heap limit, or 'vm' for the server's own thread"
+    ),
+    max_heap_mb: z.number().optional().describe('Heap limit in MB for worker isolation (default: 128)'),
+    session_id: z.string().optional().describe(
+      'Reuse the sandbox of this session so top-level variables persist between calls (vm isolation only)'
+    ),
+    max_output_chars: z.number().optional().describe(
+      'Characters of console output to return (default: 20000). Larger values are summarized, then cut'
+    ),
+    max_output_lines: z.number().optional().describe('Lines of console output to return (default: 500)'),
+    type_check: z.boolean().optional().describe(
+      'Type-check the code against the wrapper types (see search_apis) and return compiler errors instead of running it if any are found'
+    ),
+    trace: z.boolean().optional().describe(
+      'Include a summary of the tool calls the code made (count, latency and result size per tool, and failures)'
+    ),
+    dry_run: z.boolean().optional().describe(
+      'Preview memory changes: writes go to a private copy of the graph and are returned as a diff ' +
+      'instead of being applied. Apply a reviewed diff with commit_diff.'
     ),
-    timeout_ms: z.number().optional().describe('Timeout in milliseconds (default: 30000)'),
   },
-  async ({ code, timeout_ms }) => {
+  async ({ code, timeout_ms, isolation, max_heap_mb, session_id, max_output_chars, max_output_lines, type_check, trace, dry_run }, extra) => {
     const startTime = Date.now();
 
     try {
-      const result = await executeCode(code, {
+      const options: ExecutionOptions = {
         timeoutMs: timeout_ms ?? 30000,
-      });
+        signal: extra.signal,
+        isolation,
+        maxHeapMb: max_heap_mb,
+        sessionId: session_id,
+        maxOutputChars: max_output_chars,
+        maxOutputLines: max_output_lines,
+        typeCheck: type_check,
+        redactOutput,
+        dryRun: dry_run,
+        journal,
+        policy,
+      };
+      const result = await executeCode(code, options);
+      await audit('execute_code', code, options, result, new Date(startTime));
 
-      const totalTime = Date.now() - startTime;
+      return formatExecutionResult(result, startTime, session_id ? [`Session: ${session_id}`] : [], trace);
+    } catch (error) {
+      return errorResponse(error);
+    }
+  }
+);
 
-      if (result.success) {
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: [
-                '✓ Code executed successfully',
-                `Execution time: ${result.elapsedMs}ms`,
-                `Total time: ${totalTime}ms`,
-                '',
-                'Output:',
-                ...result.output.map(line => `  ${line}`),
-              ].join('\n'),
-            },
-          ],
-        };
+// Also expose a simple tool to check the current state (for debugging)
+server.tool(
+  'get_record_count',
+  'Get the current number of records in memory (for debugging)',
+  {},
+  async () => {
+    const result = await executeCode('const g = await memory.readGraph(); console.log(g.entities.length);');
+    const count = result.output[0] || '0';
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Records in memory: ${count}`,
+        },
+      ],
+    };
+  }
+);
+
+const entitySchema = z.object({
+  name: z.string(),
+  entityType: z.string(),
+  observations: z.array(z.string()),
+});
+const relationSchema = z.object({ from: z.string(), to: z.string(), relationType: z.string() });
+
+server.tool(
+  'commit_diff',
+  'Apply a diff returned by a dry run of execute_code to the memory graph',
+  {
+    diff: z.object({
+      createdEntities: z.array(entitySchema).default([]),
+      deletedEntities: z.array(entitySchema).default([]),
+      addedObservations: z.array(z.object({ entityName: z.string(), contents: z.array(z.string()) })).default([]),
+      deletedObservations: z.array(z.object({ entityName: z.string(), observations: z.array(z.string()) })).default([]),
+      createdRelations: z.array(relationSchema).default([]),
+      deletedRelations: z.array(relationSchema).default([]),
+    }).describe('The diff object from the dry run, optionally edited after review'),
+  },
+  async ({ diff }) => {
+    // Journaled like a run, so the commit can be reverted with undo_execution
+    const executionId = randomUUID();
+    const client = new JournalingMCPClient(getMCPClient(), journal, executionId);
+    try {
+      if (policy) {
+        // Check the whole diff against a copy first, so a violation halfway
+        // through does not leave it partly applied
+        await applyGraphDiff(diff, new PolicyMCPClient(new OverlayMCPClient(getMCPClient()), policy));
+        await applyGraphDiff(diff, new PolicyMCPClient(client, policy));
       } else {
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: [
-                '✗ Code execution failed',
-                `Error: ${result.error}`,
-                `Execution time: ${result.elapsedMs}ms`,
-                '',
-                'Partial output:',
-                ...result.output.map(line => `  ${line}`),
-              ].join('\n'),
-            },
-          ],
-          isError: true,
-        };
+        await applyGraphDiff(diff, client);
       }
-    } catch (error) {
       return {
         content: [
           {
             type: 'text' as const,
-            text: `Unexpected error: ${error instanceof Error ? error.message : String(error)}`,
+            text: `✓ Diff committed: ${summarizeGraphDiff(diff)}\nExecution ID: ${executionId}`,
           },
         ],
-        isError: true,
       };
+    } catch (error) {
+      return errorResponse(error, 'Error');
     }
   }
 );
 
-// Also expose a simple tool to check the current state (for debugging)
 server.tool(
-  'get_record_count',
-  'Get the current number of records in memory (for debugging)',
+  'undo_execution',
+  'Revert the memory changes made by one execute_code, run_skill or commit_diff call, newest first',
+  {
+    execution_id: z.string().describe('Execution ID from the execute_code, run_skill or commit_diff response'),
+  },
+  async ({ execution_id }) => {
+    try {
+      const report = await journal.undo(execution_id, getMCPClient());
+      const lines = [
+        `✓ Undid execution ${execution_id}: ${summarizeGraphDiff(report.reverted)}`,
+        `Journal entries: ${report.entries}`,
+      ];
+      if (report.conflicts.length > 0) {
+        lines.push('', `Skipped ${report.conflicts.length} conflicting change(s) made after the run:`);
+        lines.push(...report.conflicts.map(conflict => `  ${conflict}`));
+      }
+      return { content: [{ type: 'text' as const, text: lines.join('\n') }] };
+    } catch (error) {
+      return errorResponse(error, 'Error');
+    }
+  }
+);
+
+server.tool(
+  'get_execution_history',
+  'List past execute_code and run_skill runs from the audit log, newest first, or fetch one run with its full code to replay it',
+  {
+    execution_id: z.string().optional().describe('Return this run in full: code, options, output size and memory writes'),
+    status: z.enum(['success', 'error', 'timeout', 'aborted']).optional().describe('Only runs that ended this way'),
+    source: z.string().optional().describe("Only runs from 'execute_code', one skill ('run_skill:<name>') or any skill ('run_skill:*')"),
+    code_contains: z.string().optional().describe('Only runs whose code contains this text'),
+    mutating_only: z.boolean().optional().describe('Only runs that wrote to memory'),
+    since: z.string().optional().describe('Only runs started at or after this ISO timestamp'),
+    until: z.string().optional().describe('Only runs started before this ISO timestamp'),
+    limit: z.number().optional().describe('Runs per page (default: 20)'),
+    offset: z.number().optional().describe('Runs to skip (default: 0)'),
+  },
+  async ({ execution_id, status, source, code_contains, mutating_only, since, until, limit, offset }) => {
+    try {
+      if (execution_id !== undefined) {
+        const record = await history.get(execution_id);
+        if (!record) {
+          return errorResponse(new Error(`No execution ${execution_id} in the audit log`), 'Error');
+        }
+        return {
+          content: [{ type: 'text' as const, text: formatExecutionRecord(record) }],
+          structuredContent: record as unknown as Record<string, unknown>,
+        };
+      }
+
+      const page = await history.query({
+        status,
+        source,
+        codeContains: code_contains,
+        mutatingOnly: mutating_only,
+        since,
+        until,
+        limit,
+        offset,
+      });
+      const first = (offset ?? 0) + 1;
+      const text = page.records.length === 0
+        ? `No runs found${page.total > 0 ? ` past offset ${offset} (${page.total} matching)` : ''}`
+        : [
+            `Runs ${first}-${first + page.records.length - 1} of ${page.total}:`,
+            ...page.records.map(summarizeExecutionRecord),
+          ].join('\n');
+      return {
+        content: [{ type: 'text' as const, text }],
+        structuredContent: page as unknown as Record<string, unknown>,
+      };
+    } catch (error) {
+      return errorResponse(error, 'Error');
+    }
+  }
+);
+
+// Progressive discovery of the sandbox APIs
+server.tool(
+  'search_apis',
+  'Search the APIs available inside execute_code by keyword and return their TypeScript signatures and docs',
+  {
+    query: z.string().describe('Keywords to match against API names and docs (empty string lists everything)'),
+    detail: z.enum(['names', 'signatures', 'full']).optional().describe(
+      "How much to return: 'names', 'signatures' (default) or 'full' docs with referenced types"
+    ),
+    namespace: z.string().optional().describe('Only search this namespace, e.g. "memory"'),
+  },
+  async ({ query, detail, namespace }) => {
+    try {
+      const results = await searchApis(query, { namespace });
+      return {
+        content: [{ type: 'text' as const, text: await formatApiResults(results, detail ?? 'signatures') }],
+      };
+    } catch (error) {
+      return errorResponse(error);
+    }
+  }
+);
+
+// Session management for execute_code's session_id
+server.tool(
+  'list_sessions',
+  'List live execute_code sessions and when they expire',
   {},
   async () => {
-    const result = await executeCode('const g = await memory.readGraph(); console.log(g.entities.length);');
-    const count = result.output[0] || '0';
+    const sessions = listSessions();
     return {
       content: [
         {
           type: 'text' as const,
-          text: `Records in memory: ${count}`,
+          text: sessions.length === 0
+            ? 'No active sessions'
+            : sessions
+                .map(s =>
+                  `${s.id}: ${s.executionCount} execution(s), last used ${s.lastUsedAt}, ` +
+                  `expires ${s.expiresAt}${s.busy ? ' (busy)' : ''}`
+                )
+                .join('\n'),
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  'destroy_session',
+  'Destroy an execute_code session and discard its variables',
+  {
+    session_id: z.string().describe('Session to destroy'),
+  },
+  async ({ session_id }) => {
+    const destroyed = destroySession(session_id);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: destroyed ? `Session ${session_id} destroyed` : `No session named ${session_id}`,
+        },
+      ],
+      isError: !destroyed,
+    };
+  }
+);
+
+// Skills: saved, reusable sandbox code (stored in SKILLS_DIR, default workspace/skills)
+const skills = new SkillLibrary(process.env.SKILLS_DIR ?? path.resolve('workspace/skills'));
+
+const skillParameterSchema = z.object({
+  type: z.enum(['string', 'number', 'boolean', 'array', 'object']),
+  description: z.string().optional(),
+  required: z.boolean().optional(),
+  default: z.unknown().optional(),
+});
+
+server.tool(
+  'save_skill',
+  'Save sandbox code as a named, reusable skill. Arguments passed to run_skill are available to the code as `args`.',
+  {
+    name: z.string().describe('Skill name (letters, digits, "-" and "_")'),
+    description: z.string().describe('What the skill does'),
+    code: z.string().describe('TypeScript or JavaScript code, same environment as execute_code, reading its inputs from `args`'),
+    parameters: z.record(z.string(), skillParameterSchema).optional().describe(
+      'Declared parameters, e.g. { "status": { "type": "string", "required": true } }'
+    ),
+  },
+  async ({ name, description, code, parameters }) => {
+    try {
+      const skill = await skills.save({ name, description, code, parameters });
+      return {
+        content: [{ type: 'text' as const, text: `✓ Saved skill ${formatSkillSignature(skill)}` }],
+      };
+    } catch (error) {
+      return errorResponse(error, 'Error');
+    }
+  }
+);
+
+server.tool(
+  'list_skills',
+  'List saved skills with their parameters and descriptions',
+  {},
+  async () => {
+    const saved = await skills.list();
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: saved.length === 0
+            ? 'No skills saved'
+            : saved.map(skill => `${formatSkillSignature(skill)} - ${skill.description}`).join('\n'),
         },
       ],
     };
   }
 );
 
+server.tool(
+  'run_skill',
+  'Run a saved skill with JSON arguments',
+  {
+    name: z.string().describe('Skill to run'),
+    args: z.record(z.string(), z.unknown()).optional().describe('Arguments, checked against the skill parameters'),
+    timeout_ms: z.number().optional().describe('Timeout in milliseconds (default: 30000)'),
+  },
+  async ({ name, args, timeout_ms }, extra) => {
+    const startTime = Date.now();
+    try {
+      const options: ExecutionOptions = {
+        timeoutMs: timeout_ms ?? 30000,
+        signal: extra.signal,
+        redactOutput,
+        journal,
+        policy,
+      };
+      // Loaded once, so the audit log records the code that ran even if
+      // the skill is saved again meanwhile
+      const skill = await skills.get(name);
+      if (!skill) {
+        throw new Error(`Unknown skill: ${name}`);
+      }
+      const result = await skills.run(skill, args ?? {}, options);
+      await audit(`run_skill:${name}`, skill.code, { ...options, globals: { args: args ?? {} } }, result, new Date(startTime));
+      return formatExecutionResult(result, startTime, [`Skill: ${name}`]);
+    } catch (error) {
+      return errorResponse(error, 'Error');
+    }
+  }
+);
+
 // Start the server
 async function main() {
+  if (process.env.POLICY_FILE) {
+    policy = await loadPolicy(process.env.POLICY_FILE);
+    console.error(`Loaded policy from ${process.env.POLICY_FILE}`);
+  }
+  if (process.env.MCP_SERVERS_CONFIG) {
+    await registerConfiguredServers(process.env.MCP_SERVERS_CONFIG);
+  }
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('Code Executor MCP Server running on stdio');
@@ -0,0 +1,273 @@
+/**
+ * Progressive Tool Discovery
+ *
+ * Instead of listing every sandbox API in the execute_code description,
+ * the model searches for what it needs and gets back only the matching
+ * TypeScript signatures and docs.
+ *
+ * The index is built from the wrapper sources of each server directory
+ * (`servers/<name>/operations.ts` and `types.ts`, or their compiled `.d.ts`
+ * next to this module), so it never drifts from the real wrappers.
+ *
+ * Detail levels:
+ * - names: `memory.readGraph`
+ * - signatures: `memory.readGraph(): Promise<Graph>` plus a one-line summary
+ * - full: complete JSDoc, signature, and the referenced type definitions
+ */
+
+import { readdir, readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type ts from 'typescript';
+
+export type DetailLevel = 'names' | 'signatures' | 'full';
+
+export interface ApiFunction {
+  kind: 'function';
+  namespace: string;
+  name: string;
+  signature: string;
+  summary: string;
+  doc: string;
+  /** Names of types used in the signature */
+  references: string[];
+}
+
+export interface ApiType {
+  kind: 'type';
+  namespace: string;
+  name: string;
+  definition: string;
+  summary: string;
+  doc: string;
+  references: string[];
+}
+
+export type ApiEntry = ApiFunction | ApiType;
+
+export interface SearchApisOptions {
+  /** Only search this namespace */
+  namespace?: string;
+  /** Include type definitions as results (default: true) */
+  includeTypes?: boolean;
+}
+
+/** Source files, per server directory, that define the sandbox API */
+const API_FILES = ['operations', 'types'];
+
+const DEFAULT_SERVERS_DIR = path.dirname(fileURLToPath(import.meta.url));
+
+const indexCache = new Map<string, Promise<ApiEntry[]>>();
+
+/**
+ * Build (or reuse) the API index for a servers directory
+ */
+export function loadApiIndex(serversDir: string = DEFAULT_SERVERS_DIR): Promise<ApiEntry[]> {
+  let index = indexCache.get(serversDir);
+  if (!index) {
+    index = buildIndex(serversDir);
+    indexCache.set(serversDir, index);
+    index.catch(() => indexCache.delete(serversDir));
+  }
+  return index;
+}
+
+/**
+ * Search sandbox APIs by keyword
+ *
+ * Every whitespace-separated term must appear in the entry's name,
+ * namespace or docs. Name matches rank first. An empty query matches all.
+ *
+ * @example
+ * const results = await searchApis('observation', { namespace: 'memory' });
+ * console.log(await formatApiResults(results, 'signatures'));
+ */
+export async function searchApis(
+  query: string,
+  options: SearchApisOptions = {},
+  serversDir?: string
+): Promise<ApiEntry[]> {
+  const { namespace, includeTypes = true } = options;
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const index = await loadApiIndex(serversDir);
+
+  const scored: Array<{ entry: ApiEntry; score: number }> = [];
+  for (const entry of index) {
+    if (namespace && entry.namespace !== namespace) continue;
+    if (!includeTypes && entry.kind === 'type') continue;
+
+    const name = `${entry.namespace}.${entry.name}`.toLowerCase();
+    const text = entry.doc.toLowerCase();
+    let score = 0;
+    let matchesAll = true;
+    for (const term of terms) {
+      if (name.includes(term)) score += 10;
+      else if (text.includes(term)) score += 1;
+      else matchesAll = false;
+    }
+    if (!matchesAll) continue;
+    if (entry.kind === 'function') score += 0.5;
+    scored.push({ entry, score });
+  }
+
+  return scored.sort((a, b) => b.score - a.score).map(s => s.entry);
+}
+
+/**
+ * Render search results at the requested detail level
+ *
+ * At `full` detail, the types referenced by matched functions are
+ * appended so the result is self-contained.
+ */
+export async function formatApiResults(
+  entries: ApiEntry[],
+  detail: DetailLevel = 'signatures',
+  serversDir?: string
+): Promise<string> {
+  if (entries.length === 0) return 'No matching APIs';
+
+  if (detail === 'names') {
+    return entries.map(e => `${e.namespace}.${e.name}${e.kind === 'type' ? ' (type)' : ''}`).join('\n');
+  }
+
+  if (detail === 'signatures') {
+    return entries
+      .map(e => {
+        const line = e.kind === 'function'
+          ? `${e.namespace}.${e.signature}`
+          : `${e.namespace}: ${e.definition.replace(/\s+/g, ' ')}`;
+        return e.summary ? `${line}\n  ${e.summary}` : line;
+      })
+      .join('\n');
+  }
+
+  const index = await loadApiIndex(serversDir);
+  const shown = new Set(entries.map(e => `${e.namespace}.${e.name}`));
+  const referenced: ApiType[] = [];
+  const queue = [...entries];
+  while (queue.length > 0) {
+    const entry = queue.shift()!;
+    for (const name of entry.references) {
+      const key = `${entry.namespace}.${name}`;
+      if (shown.has(key)) continue;
+      const type = index.find((e): e is ApiType => e.kind === 'type' && e.namespace === entry.namespace && e.name === name);
+      if (type) {
+        shown.add(key);
+        referenced.push(type);
+        queue.push(type);
+      }
+    }
+  }
+
+  const sections = entries.map(e => {
+    const body = e.kind === 'function' ? `${e.namespace}.${e.signature}` : e.definition;
+    return e.doc ? `${e.doc}\n${body}` : body;
+  });
+  if (referenced.length > 0) {
+    sections.push('// Referenced types\n' + referenced.map(t => t.definition).join('\n\n'));
+  }
+  return sections.join('\n\n');
+}
+
+async function buildIndex(serversDir: string): Promise<ApiEntry[]> {
+  const { default: typescript } = await import('typescript');
+  const entries: ApiEntry[] = [];
+
+  for (const namespace of (await readdir(serversDir)).sort()) {
+    const dir = path.join(serversDir, namespace);
+    if (!(await stat(dir)).isDirectory()) continue;
+
+    for (const base of API_FILES) {
+      const file = await findSource(dir, base);
+      if (!file) continue;
+      const text = await readFile(file, 'utf-8');
+      const source = typescript.createSourceFile(file, text, typescript.ScriptTarget.ES2022, true);
+      entries.push(...extractEntries(typescript, source, namespace));
+    }
+  }
+
+  const typeNames = new Set(entries.filter(e => e.kind === 'type').map(e => `${e.namespace}.${e.name}`));
+  for (const entry of entries) {
+    entry.references = entry.references.filter(name => typeNames.has(`${entry.namespace}.${name}`));
+  }
+  return entries;
+}
+
+/**
+ * Prefer the compiled declaration file, fall back to the TypeScript source
+ */
+async function findSource(dir: string, base: string): Promise<string | null> {
+  for (const candidate of [`${base}.d.ts`, `${base}.ts`]) {
+    const file = path.join(dir, candidate);
+    try {
+      await stat(file);
+      return file;
+    } catch {
+      // try the next candidate
+    }
+  }
+  return null;
+}
+
+function extractEntries(typescript: typeof ts, source: ts.SourceFile, namespace: string): ApiEntry[] {
+  const entries: ApiEntry[] = [];
+  const isExported = (node: ts.Node) =>
+    typescript.canHaveModifiers(node) &&
+    (typescript.getModifiers(node) ?? []).some(m => m.kind === typescript.SyntaxKind.ExportKeyword);
+
+  for (const statement of source.statements) {
+    if (!isExported(statement)) continue;
+    const { doc, summary } = readJsDoc(typescript, statement, source);
+
+    if (typescript.isFunctionDeclaration(statement) && statement.name) {
+      const params = statement.parameters.map(p => p.getText(source).replace(/\s+/g, ' ')).join(', ');
+      const returns = statement.type ? `: ${statement.type.getText(source).replace(/\s+/g, ' ')}` : '';
+      entries.push({
+        kind: 'function',
+        namespace,
+        name: statement.name.text,
+        signature: `${statement.name.text}(${params})${returns}`,
+        summary,
+        doc,
+        references: collectTypeReferences(typescript, statement),
+      });
+    } else if (typescript.isInterfaceDeclaration(statement) || typescript.isTypeAliasDeclaration(statement)) {
+      entries.push({
+        kind: 'type',
+        namespace,
+        name: statement.name.text,
+        definition: statement.getText(source).replace(/^export\s+(declare\s+)?/, ''),
+        summary,
+        doc,
+        references: collectTypeReferences(typescript, statement),
+      });
+    }
+  }
+  return entries;
+}
+
+function readJsDoc(typescript: typeof ts, node: ts.Node, source: ts.SourceFile): { doc: string; summary: string } {
+  const jsDocs = typescript.getJSDocCommentsAndTags(node).filter(typescript.isJSDoc);
+  const last = jsDocs[jsDocs.length - 1];
+  if (!last) return { doc: '', summary: '' };
+  const comment = typescript.getTextOfJSDocComment(last.comment) ?? '';
+  return {
+    doc: last.getText(source),
+    summary: comment.split('\n')[0].trim(),
+  };
+}
+
+function collectTypeReferences(typescript: typeof ts, node: ts.Node): string[] {
+  const names = new Set<string>();
+  const visit = (child: ts.Node) => {
+    if (typescript.isTypeReferenceNode(child) && typescript.isIdentifier(child.typeName)) {
+      names.add(child.typeName.text);
+    }
+    if (typescript.isExpressionWithTypeArguments(child) && typescript.isIdentifier(child.expression)) {
+      names.add(child.expression.text);
+    }
+    typescript.forEachChild(child, visit);
+  };
+  typescript.forEachChild(node, visit);
+  return Array.from(names);
+}
@@ -5,11 +5,18 @@
  * actual MCP tool calls. In production, this would connect to the
  * MCP server via stdio or HTTP.
  *
+ * Clients are kept in a registry keyed by sandbox namespace; the memory
+ * wrappers use the one registered as `memory`.
+ *
  * For this experiment, we provide both:
  * 1. A mock client for testing without MCP
  * 2. An interface for real MCP integration
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { NotFoundError, classifyMemoryError } from './errors.js';
+import { runQuery } from './query.js';
+import { rankedSearch } from './search.js';
 import type {
   Graph,
   Entity,
@@ -20,6 +27,9 @@ import type {
   DeleteObservationInput,
   SearchResult,
   EntityWithType,
+  RelationWithType,
+  QueryOptions,
+  SearchOptions,
 } from './types.js';
 
 /**
@@ -30,38 +40,161 @@ export interface MCPClientInterface {
 }
 
 /**
- * The active MCP client instance
- * Set this before using any memory operations
+ * Registered MCP clients, keyed by the namespace they appear under in the
+ * sandbox (`memory`, `notes`, ...). Each server gets its own client, so one
+ * script can combine tools from several servers.
  */
-let mcpClient: MCPClientInterface | null = null;
+const clients = new Map<string, MCPClientInterface>();
+
+/** Namespace of the memory server, used by setMCPClient()/getMCPClient() */
+export const MEMORY_NAMESPACE = 'memory';
+
+/** Memory tools that change the graph */
+export const MUTATING_TOOLS: ReadonlySet<string> = new Set([
+  'create_entities',
+  'create_relations',
+  'add_observations',
+  'delete_entities',
+  'delete_observations',
+  'delete_relations',
+]);
+
+/**
+ * Names of the entities a mutating call names in its parameters: the
+ * entities it creates, deletes or changes, and both ends of its relations
+ */
+export function mutatedEntityNames(toolName: string, params: Record<string, unknown>): string[] {
+  const list = <T>(value: unknown): T[] => (Array.isArray(value) ? (value as T[]) : []);
+  let names: unknown[] = [];
+  switch (toolName) {
+    case 'create_entities':
+      names = list<{ name?: unknown }>(params.entities).map(e => e?.name);
+      break;
+    case 'delete_entities':
+      names = list(params.entityNames);
+      break;
+    case 'add_observations':
+      names = list<{ entityName?: unknown }>(params.observations).map(o => o?.entityName);
+      break;
+    case 'delete_observations':
+      names = list<{ entityName?: unknown }>(params.deletions).map(d => d?.entityName);
+      break;
+    case 'create_relations':
+    case 'delete_relations':
+      names = list<{ from?: unknown; to?: unknown }>(params.relations).flatMap(r => [r?.from, r?.to]);
+      break;
+  }
+  return Array.from(new Set(names.filter((name): name is string => typeof name === 'string')));
+}
+
+/**
+ * Clients that replace registered ones for a single async call chain,
+ * e.g. a dry-run overlay for one execution
+ */
+const scopedClients = new AsyncLocalStorage<ReadonlyMap<string, MCPClientInterface>>();
+
+/**
+ * Run `fn` with some namespaces served by other clients
+ *
+ * Only calls made from within `fn`, including its async continuations,
+ * see the replacements; concurrent callers keep using the registry.
+ */
+export function runWithMCPClients<T>(overrides: Record<string, MCPClientInterface>, fn: () => T): T {
+  const merged = new Map(scopedClients.getStore());
+  for (const [namespace, client] of Object.entries(overrides)) merged.set(namespace, client);
+  return scopedClients.run(merged, fn);
+}
 
+function lookupClient(namespace: string): MCPClientInterface | undefined {
+  return scopedClients.getStore()?.get(namespace) ?? clients.get(namespace);
+}
+
+/**
+ * Register the client that serves a namespace, replacing any previous one
+ */
+export function registerMCPClient(namespace: string, client: MCPClientInterface): void {
+  clients.set(namespace, client);
+}
+
+/**
+ * Remove a namespace's client
+ *
+ * @returns Whether a client was registered
+ */
+export function unregisterMCPClient(namespace: string): boolean {
+  return clients.delete(namespace);
+}
+
+/**
+ * Look up the client for a namespace
+ *
+ * @throws If no client is registered for it
+ */
+export function getRegisteredMCPClient(namespace: string): MCPClientInterface {
+  const client = lookupClient(namespace);
+  if (!client) {
+    throw new Error(`No MCP client registered for "${namespace}". Call registerMCPClient() first.`);
+  }
+  return client;
+}
+
+/**
+ * Names of all namespaces with a registered client
+ */
+export function listMCPNamespaces(): string[] {
+  return Array.from(clients.keys());
+}
+
+/**
+ * Call a tool on the server registered for a namespace
+ */
+export async function callNamespacedTool<T>(
+  namespace: string,
+  toolName: string,
+  params: Record<string, unknown>
+): Promise<T> {
+  return getRegisteredMCPClient(namespace).callTool<T>(toolName, params);
+}
+
+/**
+ * Set the memory server's client
+ * Set this before using any memory operations
+ */
 export function setMCPClient(client: MCPClientInterface): void {
-  mcpClient = client;
+  registerMCPClient(MEMORY_NAMESPACE, client);
 }
 
 export function getMCPClient(): MCPClientInterface {
-  if (!mcpClient) {
+  const client = lookupClient(MEMORY_NAMESPACE);
+  if (!client) {
     throw new Error(
       'MCP client not initialized. Call setMCPClient() first, or use MockMCPClient for testing.'
     );
   }
-  return mcpClient;
+  return client;
 }
 
 /**
- * Helper to call MCP tools with proper typing
+ * Helper to call memory MCP tools with proper typing
+ *
+ * Errors from the server are given their class, see classifyMemoryError().
  */
 export async function callMCPTool<T>(
   toolName: string,
   params: Record<string, unknown>
 ): Promise<T> {
   const client = getMCPClient();
-  return client.callTool<T>(toolName, params);
+  try {
+    return await client.callTool<T>(toolName, params);
+  } catch (error) {
+    throw classifyMemoryError(error);
+  }
 }
 
 /**
  * Mock MCP client for testing without actual MCP server
  * Stores data in memory, mimicking the real memory server behavior
+ * (held to it by the shared suite in test/conformance.ts)
  */
 export class MockMCPClient implements MCPClientInterface {
   private entities: Map<string, EntityWithType> = new Map();
@@ -91,11 +224,17 @@ export class MockMCPClient implements MCPClientInterface {
         return this.deleteRelations(params.relations as CreateRelationInput[]) as T;
 
       case 'search_nodes':
+        if (params.ranked) {
+          return rankedSearch(this.readGraph(), params.query as string, params as SearchOptions) as T;
+        }
         return this.searchNodes(params.query as string) as T;
 
       case 'open_nodes':
         return this.openNodes(params.names as string[]) as T;
 
+      case 'query_nodes':
+        return runQuery(this.readGraph(), params.query as string, params as QueryOptions) as T;
+
       default:
         throw new Error(`Unknown tool: ${toolName}`);
     }
@@ -103,46 +242,52 @@ export class MockMCPClient implements MCPClientInterface {
 
   private readGraph(): Graph {
     return {
-      entities: Array.from(this.entities.values()),
-      relations: this.relations.map(r => ({ ...r, type: 'relation' as const })),
+      entities: Array.from(this.entities.values(), copyEntity),
+      relations: this.relations.map(r => ({ ...r })),
     };
   }
 
   private createEntities(entities: CreateEntityInput[]): { entities: Entity[] } {
     const created: Entity[] = [];
     for (const entity of entities) {
-      const entityWithType: EntityWithType = {
-        type: 'entity',
+      // Existing names are skipped, not replaced
+      if (this.entities.has(entity.name)) continue;
+      this.entities.set(entity.name, {
         name: entity.name,
         entityType: entity.entityType,
         observations: [...entity.observations],
-      };
-      this.entities.set(entity.name, entityWithType);
+      });
       created.push(entity);
     }
     return { entities: created };
   }
 
   private createRelations(relations: CreateRelationInput[]): { relations: CreateRelationInput[] } {
+    const created: CreateRelationInput[] = [];
     for (const relation of relations) {
-      this.relations.push({ ...relation });
+      if (this.relations.some(r => sameRelation(r, relation))) continue;
+      this.relations.push({ from: relation.from, to: relation.to, relationType: relation.relationType });
+      created.push(relation);
     }
-    return { relations };
+    return { relations: created };
   }
 
   private addObservations(observations: AddObservationInput[]): { results: AddObservationResult[] } {
-    const results: AddObservationResult[] = [];
-    for (const obs of observations) {
-      const entity = this.entities.get(obs.entityName);
-      if (entity) {
-        entity.observations.push(...obs.contents);
-        results.push({
-          entityName: obs.entityName,
-          addedObservations: obs.contents,
-        });
-      }
+    // Checked up front so that a failing call changes nothing
+    const missing = observations.find(o => !this.entities.has(o.entityName));
+    if (missing) {
+      throw new NotFoundError(`Entity with name ${missing.entityName} not found`);
     }
-    return { results };
+    return {
+      results: observations.map(obs => {
+        const entity = this.entities.get(obs.entityName)!;
+        // Only checked against the stored observations: repeats within
+        // `contents` are all added, as the memory server does
+        const added = obs.contents.filter(content => !entity.observations.includes(content));
+        entity.observations.push(...added);
+        return { entityName: obs.entityName, addedObservations: added };
+      }),
+    };
   }
 
   private deleteEntities(entityNames: string[]): { success: boolean; message: string } {
@@ -166,11 +311,7 @@ export class MockMCPClient implements MCPClientInterface {
   }
 
   private deleteRelations(relations: CreateRelationInput[]): { success: boolean } {
-    for (const rel of relations) {
-      this.relations = this.relations.filter(
-        r => !(r.from === rel.from && r.to === rel.to && r.relationType === rel.relationType)
-      );
-    }
+    this.relations = this.relations.filter(r => !relations.some(rel => sameRelation(r, rel)));
     return { success: true };
   }
 
@@ -182,8 +323,8 @@ export class MockMCPClient implements MCPClientInterface {
         e.observations.some(o => o.toLowerCase().includes(query.toLowerCase()))
     );
     return {
-      entities: matchingEntities,
-      relations: [],
+      entities: matchingEntities.map(copyEntity),
+      relations: this.relationsOf(matchingEntities),
     };
   }
 
@@ -192,17 +333,27 @@ export class MockMCPClient implements MCPClientInterface {
       .map(name => this.entities.get(name))
       .filter((e): e is EntityWithType => e !== undefined);
     return {
-      entities,
-      relations: [],
+      entities: entities.map(copyEntity),
+      relations: this.relationsOf(entities),
     };
   }
 
+  /**
+   * Relations with either end among the given entities, as the memory server returns them
+   */
+  private relationsOf(entities: Entity[]): RelationWithType[] {
+    const names = new Set(entities.map(e => e.name));
+    return this.relations
+      .filter(r => names.has(r.from) || names.has(r.to))
+      .map(r => ({ ...r }));
+  }
+
   // Utility method to load initial data (useful for testing)
   loadData(graph: Graph): void {
     this.entities.clear();
     this.relations = [];
     for (const entity of graph.entities) {
-      this.entities.set(entity.name, entity);
+      this.entities.set(entity.name, copyEntity(entity));
     }
     for (const relation of graph.relations) {
       this.relations.push({
@@ -213,3 +364,15 @@ export class MockMCPClient implements MCPClientInterface {
     }
   }
 }
+
+/**
+ * Copy of a stored entity, so callers cannot change the graph by mutating
+ * results. Like the memory server, results carry no `type` field.
+ */
+function copyEntity(entity: Entity): EntityWithType {
+  return { name: entity.name, entityType: entity.entityType, observations: [...entity.observations] };
+}
+
+function sameRelation(a: CreateRelationInput, b: CreateRelationInput): boolean {
+  return a.from === b.from && a.to === b.to && a.relationType === b.relationType;
+}
@@ -0,0 +1,81 @@
+/**
+ * Memory errors
+ *
+ * Errors thrown by the memory wrappers and clients carry a machine-readable
+ * `code`, so agent code can tell them apart without parsing messages:
+ *
+ *   try {
+ *     await memory.getAttributes('Record_999');
+ *   } catch (error) {
+ *     if (error.code !== 'NOT_FOUND') throw error;
+ *   }
+ *
+ * The sandbox bridge passes `name` and `code` through to agent code, and a
+ * run that fails on one of these errors reports the code as `errorCode`.
+ */
+
+/**
+ * Thrown when a wrapper is called with arguments that do not match its
+ * types, or with values it cannot accept
+ */
+export class ValidationError extends Error {
+  readonly code = 'INVALID_INPUT';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Thrown when an entity the call depends on does not exist
+ */
+export class NotFoundError extends Error {
+  readonly code = 'NOT_FOUND';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Thrown when the graph is not in a state the call can work with, e.g. an
+ * attribute to increment holds text
+ */
+export class ConflictError extends Error {
+  readonly code = 'CONFLICT';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Thrown when the memory server cannot be reached: it failed to start, its
+ * connection closed or a request timed out
+ */
+export class TransportError extends Error {
+  readonly code = 'TRANSPORT_ERROR';
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'TransportError';
+  }
+}
+
+const UPSTREAM_NOT_FOUND = /^Entity with name .+ not found$/;
+
+/**
+ * Give a memory server error its class
+ *
+ * @modelcontextprotocol/server-memory reports a missing entity as a plain
+ * message; that becomes a NotFoundError. Errors that already have a code
+ * are returned unchanged.
+ */
+export function classifyMemoryError(error: unknown): unknown {
+  if (!(error instanceof Error) || (error as { code?: unknown }).code !== undefined) return error;
+  if (UPSTREAM_NOT_FOUND.test(error.message)) return new NotFoundError(error.message);
+  return error;
+}
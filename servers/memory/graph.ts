@@ -0,0 +1,184 @@
+/**
+ * Graph traversal
+ *
+ * Breadth-first walks over the relations of a graph: the neighbors of an
+ * entity, the shortest path between two entities, the subgraph around a
+ * set of entities and the connected components. The memory wrappers run
+ * these on the host over one read_graph call, so agent code only receives
+ * the result.
+ *
+ * Relations whose ends are not entities in the graph are skipped.
+ */
+
+import { NotFoundError, ValidationError } from './errors.js';
+import type {
+  EntityWithType,
+  Graph,
+  GraphPath,
+  NeighborOptions,
+  Neighborhood,
+  RelationWithType,
+  SearchResult,
+  TraversalOptions,
+} from './types.js';
+
+interface Step {
+  name: string;
+  relation: RelationWithType;
+}
+
+/**
+ * Neighbors of an entity within `depth` hops, nearest first
+ *
+ * Relations are those crossed to reach each neighbor.
+ *
+ * @throws If the entity does not exist or the options are invalid
+ */
+export function findNeighbors(graph: Graph, name: string, options: NeighborOptions = {}): Neighborhood {
+  const { depth = 1 } = options;
+  const { entities, adjacent } = index(graph, options);
+  if (!entities.has(name)) throw new NotFoundError(`Entity not found: ${name}`);
+
+  const { distances, relations } = walk(adjacent, [name], depth);
+  distances.delete(name);
+  return {
+    entities: Array.from(distances.keys(), neighbor => entities.get(neighbor)!),
+    relations,
+    distances: Object.fromEntries(distances),
+  };
+}
+
+/**
+ * Fewest-hop path between two entities
+ *
+ * @returns The path, or null if the entities are not connected
+ * @throws If either entity does not exist or the options are invalid
+ */
+export function findShortestPath(
+  graph: Graph,
+  from: string,
+  to: string,
+  options: TraversalOptions = {}
+): GraphPath | null {
+  const { entities, adjacent } = index(graph, options);
+  for (const name of [from, to]) {
+    if (!entities.has(name)) throw new NotFoundError(`Entity not found: ${name}`);
+  }
+
+  const previous = new Map<string, Step | null>([[from, null]]);
+  let frontier = [from];
+  while (frontier.length > 0 && !previous.has(to)) {
+    const next: string[] = [];
+    for (const current of frontier) {
+      for (const step of adjacent(current)) {
+        if (previous.has(step.name)) continue;
+        previous.set(step.name, { name: current, relation: step.relation });
+        next.push(step.name);
+      }
+    }
+    frontier = next;
+  }
+  if (!previous.has(to)) return null;
+
+  const path: GraphPath = { entities: [entities.get(to)!], relations: [] };
+  for (let step = previous.get(to); step; step = previous.get(step.name)) {
+    path.entities.unshift(entities.get(step.name)!);
+    path.relations.unshift(step.relation);
+  }
+  return path;
+}
+
+/**
+ * Entities by name, expanded by `depth` hops, with every relation between
+ * them
+ *
+ * Unknown names are skipped, like openNodes.
+ *
+ * @throws If the options are invalid
+ */
+export function extractSubgraph(graph: Graph, names: string[], options: NeighborOptions = {}): SearchResult {
+  const { depth = 0 } = options;
+  const { entities, adjacent } = index(graph, options);
+  const included = walk(adjacent, names.filter(name => entities.has(name)), depth).distances;
+  return {
+    entities: graph.entities.filter(e => included.has(e.name)),
+    relations: graph.relations.filter(r => included.has(r.from) && included.has(r.to)),
+  };
+}
+
+/**
+ * Groups of entities connected by relations, in either direction, largest
+ * first; an entity without relations is a group of its own
+ *
+ * @returns Entity names per component, in graph order within each
+ */
+export function findComponents(graph: Graph, options: Pick<TraversalOptions, 'relationType'> = {}): string[][] {
+  const { adjacent } = index(graph, { ...options, direction: 'both' });
+  const order = new Map(graph.entities.map((e, position) => [e.name, position]));
+  const seen = new Set<string>();
+  const components: string[][] = [];
+  for (const { name } of graph.entities) {
+    if (seen.has(name)) continue;
+    seen.add(name);
+    const members = [name];
+    for (let i = 0; i < members.length; i++) {
+      for (const step of adjacent(members[i])) {
+        if (seen.has(step.name)) continue;
+        seen.add(step.name);
+        members.push(step.name);
+      }
+    }
+    components.push(members.sort((a, b) => order.get(a)! - order.get(b)!));
+  }
+  return components.sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Entities by name and a lookup of the steps that may be taken from each
+ */
+function index(graph: Graph, options: TraversalOptions) {
+  const { relationType, direction = 'both' } = options;
+  if (!['out', 'in', 'both'].includes(direction)) throw new ValidationError('"direction" must be "out", "in" or "both"');
+  const types = relationType === undefined ? null : new Set(Array.isArray(relationType) ? relationType : [relationType]);
+
+  const entities = new Map<string, EntityWithType>(graph.entities.map(e => [e.name, e]));
+  const steps = new Map<string, Step[]>();
+  const add = (name: string, step: Step) => {
+    const list = steps.get(name);
+    if (list) list.push(step);
+    else steps.set(name, [step]);
+  };
+  for (const relation of graph.relations) {
+    if (types && !types.has(relation.relationType)) continue;
+    if (!entities.has(relation.from) || !entities.has(relation.to)) continue;
+    if (direction !== 'in') add(relation.from, { name: relation.to, relation });
+    if (direction !== 'out') add(relation.to, { name: relation.from, relation });
+  }
+  return { entities, adjacent: (name: string) => steps.get(name) ?? [] };
+}
+
+/**
+ * Breadth-first walk from `starts` up to `depth` hops
+ *
+ * @returns Hops to each entity reached (starts included, at 0) and the
+ *   relation first crossed to reach each one
+ */
+function walk(adjacent: (name: string) => Step[], starts: string[], depth: number) {
+  if (!Number.isInteger(depth) || depth < 0) throw new ValidationError('"depth" must be a non-negative integer');
+  const distances = new Map(starts.map(name => [name, 0]));
+  const relations: RelationWithType[] = [];
+  let frontier = Array.from(distances.keys());
+  for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const current of frontier) {
+      for (const step of adjacent(current)) {
+        if (distances.has(step.name)) continue;
+        distances.set(step.name, hop);
+        relations.push(step.relation);
+        next.push(step.name);
+      }
+    }
+    frontier = next;
+  }
+  return { distances, relations };
+}
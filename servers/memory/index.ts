@@ -30,16 +30,111 @@ export type {
   AddObservationResult,
   DeleteObservationInput,
   SearchResult,
+  SearchMatch,
+  SearchOptions,
+  AttributeValue,
+  Attributes,
+  GetAttributesOptions,
+  QueryOptions,
+  QueryResult,
+  TraversalOptions,
+  NeighborOptions,
+  Neighborhood,
+  GraphPath,
+  MemoryErrorCode,
 } from './types.js';
 
+export {
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  TransportError,
+  classifyMemoryError,
+} from './errors.js';
+
+export { schemas, type Schema } from './schema.js';
+
 // Re-export client utilities
 export {
   setMCPClient,
   getMCPClient,
+  registerMCPClient,
+  unregisterMCPClient,
+  getRegisteredMCPClient,
+  listMCPNamespaces,
+  callNamespacedTool,
+  MEMORY_NAMESPACE,
+  MUTATING_TOOLS,
+  runWithMCPClients,
   MockMCPClient,
   type MCPClientInterface,
 } from './client.js';
 
+export { StdioMCPClient, type StdioMCPClientOptions, type ToolDefinition } from './stdio-client.js';
+
+export {
+  TokenizingMCPClient,
+  PiiTokenizer,
+  DEFAULT_PII_PATTERNS,
+  parsePiiPatterns,
+  type PiiPattern,
+} from './tokenizing-client.js';
+
+export {
+  OverlayMCPClient,
+  diffGraphs,
+  applyGraphDiff,
+  summarizeGraphDiff,
+  emptyGraphDiff,
+  isEmptyGraphDiff,
+  type GraphDiff,
+} from './overlay-client.js';
+
+export {
+  MutationJournal,
+  JournalingMCPClient,
+  invertGraphDiff,
+  type JournalEntry,
+  type UndoReport,
+  type MutationJournalOptions,
+} from './journal.js';
+
+export {
+  PolicyMCPClient,
+  PolicyError,
+  parsePolicy,
+  loadPolicy,
+  MEMORY_METHODS,
+  type Policy,
+} from './policy.js';
+
+export {
+  TracingMCPClient,
+  summarizeToolCalls,
+  type ToolCallTrace,
+  type TraceOptions,
+} from './tracing-client.js';
+
+export {
+  QueryingMCPClient,
+  QuerySyntaxError,
+  compileQuery,
+  runQuery,
+  type EntityPredicate,
+} from './query.js';
+
+export { rankedSearch, tokenize } from './search.js';
+
+export { findNeighbors, findShortestPath, extractSubgraph, findComponents } from './graph.js';
+
+export {
+  JsonlMCPClient,
+  loadGraphFile,
+  saveGraphFile,
+  parseGraphJsonl,
+  serializeGraphJsonl,
+} from './jsonl-client.js';
+
 // Re-export all operations
 export {
   readGraph,
@@ -51,4 +146,12 @@ export {
   deleteRelations,
   searchNodes,
   openNodes,
+  queryNodes,
+  neighbors,
+  shortestPath,
+  subgraph,
+  connectedComponents,
+  getAttributes,
+  setAttribute,
+  incrementAttribute,
 } from './operations.js';
@@ -0,0 +1,273 @@
+/**
+ * Mutation journal with undo
+ *
+ * Every mutating memory call made through a JournalingMCPClient is recorded
+ * under the ID of the execution that made it. Each entry stores the exact
+ * effect of the call as a GraphDiff, taken by opening the entities the call
+ * names (with open_nodes) before and after it, which includes the full
+ * state of anything deleted. That is enough to build the inverse
+ * operations. Relations between two entities that do not exist are not
+ * seen, since open_nodes returns no end of them.
+ *
+ * undo() reverts one execution's entries in reverse order. Before each
+ * step it checks the current graph; parts of the inverse that would
+ * overwrite changes made later (by this or another execution) are skipped
+ * and reported as conflicts.
+ *
+ * Mutating calls are serialized per journal so that before/after reads of
+ * concurrent calls do not overlap. Reads are not journaled.
+ */
+
+import { MUTATING_TOOLS, mutatedEntityNames, type MCPClientInterface } from './client.js';
+import { applyGraphDiff, diffGraphs, isEmptyGraphDiff, emptyGraphDiff, type GraphDiff } from './overlay-client.js';
+import type { Graph, Relation } from './types.js';
+
+export interface JournalEntry {
+  executionId: string;
+  /** Position in the journal, increasing across all executions */
+  sequence: number;
+  timestamp: string;
+  toolName: string;
+  params: Record<string, unknown>;
+  /** What the call changed */
+  diff: GraphDiff;
+}
+
+export interface UndoReport {
+  executionId: string;
+  /** Entries found for the execution */
+  entries: number;
+  /** Changes made to revert the execution */
+  reverted: GraphDiff;
+  /** Parts of the inverse that were skipped because the graph changed since */
+  conflicts: string[];
+}
+
+export interface MutationJournalOptions {
+  /** Executions kept before the oldest are dropped (default: 100) */
+  maxExecutions?: number;
+}
+
+/**
+ * In-memory journal of mutating calls, grouped by execution
+ */
+export class MutationJournal {
+  private readonly executions = new Map<string, JournalEntry[]>();
+  private readonly maxExecutions: number;
+  private nextSequence = 1;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(options: MutationJournalOptions = {}) {
+    this.maxExecutions = options.maxExecutions ?? 100;
+  }
+
+  /**
+   * Run a mutating call against `client` and record its effect
+   */
+  record<T>(
+    executionId: string,
+    client: MCPClientInterface,
+    toolName: string,
+    params: Record<string, unknown>
+  ): Promise<T> {
+    const run = async () => {
+      // Only the named entities and their relations can change
+      const names = mutatedEntityNames(toolName, params);
+      const snapshot = async (): Promise<Graph> =>
+        names.length === 0 ? { entities: [], relations: [] } : client.callTool<Graph>('open_nodes', { names });
+      // Copied, since in-process clients may hand out their live objects
+      const before = structuredClone(await snapshot());
+      try {
+        return await client.callTool<T>(toolName, params);
+      } finally {
+        // A failed call may still have applied part of its changes
+        const after = await snapshot();
+        const diff = diffGraphs(before, after);
+        if (!isEmptyGraphDiff(diff)) this.append(executionId, toolName, params, diff);
+      }
+    };
+    const result = this.pending.then(run, run);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Entries recorded for an execution, oldest first
+   */
+  entries(executionId: string): JournalEntry[] {
+    return [...(this.executions.get(executionId) ?? [])];
+  }
+
+  /**
+   * IDs of journaled executions, oldest first
+   */
+  executionIds(): string[] {
+    return Array.from(this.executions.keys());
+  }
+
+  /**
+   * Revert an execution's changes, newest first
+   *
+   * The execution's entries are removed from the journal, so it cannot be
+   * undone twice.
+   *
+   * @throws If the journal has no changes for the execution
+   */
+  undo(executionId: string, client: MCPClientInterface): Promise<UndoReport> {
+    const run = async (): Promise<UndoReport> => {
+      const entries = this.executions.get(executionId);
+      if (!entries) {
+        throw new Error(`No journaled changes for execution ${executionId}`);
+      }
+      this.executions.delete(executionId);
+
+      const reverted = emptyGraphDiff();
+      const conflicts: string[] = [];
+      for (const entry of [...entries].reverse()) {
+        const current = await client.callTool<Graph>('read_graph', {});
+        const { applicable, problems } = checkInverse(invertGraphDiff(entry.diff), current);
+        conflicts.push(...problems.map(problem => `${entry.toolName} #${entry.sequence}: ${problem}`));
+        await applyGraphDiff(applicable, client);
+        for (const key of Object.keys(reverted) as Array<keyof GraphDiff>) {
+          (reverted[key] as unknown[]).push(...applicable[key]);
+        }
+      }
+      return { executionId, entries: entries.length, reverted, conflicts };
+    };
+    const result = this.pending.then(run, run);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  private append(executionId: string, toolName: string, params: Record<string, unknown>, diff: GraphDiff): void {
+    let entries = this.executions.get(executionId);
+    if (!entries) {
+      entries = [];
+      this.executions.set(executionId, entries);
+      while (this.executions.size > this.maxExecutions) {
+        this.executions.delete(this.executions.keys().next().value!);
+      }
+    }
+    entries.push({
+      executionId,
+      sequence: this.nextSequence++,
+      timestamp: new Date().toISOString(),
+      toolName,
+      params: structuredClone(params),
+      diff,
+    });
+  }
+}
+
+/**
+ * Memory client that journals mutating calls under one execution ID
+ */
+export class JournalingMCPClient implements MCPClientInterface {
+  constructor(
+    private readonly client: MCPClientInterface,
+    private readonly journal: MutationJournal,
+    readonly executionId: string
+  ) {}
+
+  callTool<T>(toolName: string, params: Record<string, unknown>): Promise<T> {
+    if (!MUTATING_TOOLS.has(toolName)) {
+      return this.client.callTool<T>(toolName, params);
+    }
+    return this.journal.record<T>(this.executionId, this.client, toolName, params);
+  }
+}
+
+/**
+ * The diff that reverses `diff`
+ */
+export function invertGraphDiff(diff: GraphDiff): GraphDiff {
+  return {
+    createdEntities: diff.deletedEntities,
+    deletedEntities: diff.createdEntities,
+    addedObservations: diff.deletedObservations.map(d => ({ entityName: d.entityName, contents: d.observations })),
+    deletedObservations: diff.addedObservations.map(a => ({ entityName: a.entityName, observations: a.contents })),
+    createdRelations: diff.deletedRelations,
+    deletedRelations: diff.createdRelations,
+  };
+}
+
+/**
+ * Split an inverse diff into the parts that can be applied to the current
+ * graph without overwriting later changes, and descriptions of the rest
+ */
+function checkInverse(inverse: GraphDiff, current: Graph): { applicable: GraphDiff; problems: string[] } {
+  const applicable = emptyGraphDiff();
+  const problems: string[] = [];
+  const entities = new Map(current.entities.map(e => [e.name, e]));
+  const relationKey = (r: Relation) => JSON.stringify([r.from, r.to, r.relationType]);
+  const relations = new Set(current.relations.map(relationKey));
+  const removedRelations = new Set(inverse.deletedRelations.map(relationKey));
+
+  for (const relation of inverse.deletedRelations) {
+    if (relations.has(relationKey(relation))) applicable.deletedRelations.push(relation);
+    else problems.push(`relation ${describeRelation(relation)} no longer exists`);
+  }
+
+  for (const entity of inverse.deletedEntities) {
+    const now = entities.get(entity.name);
+    if (!now) {
+      problems.push(`entity ${entity.name} no longer exists`);
+      continue;
+    }
+    const later = now.observations.filter(o => !entity.observations.includes(o));
+    const linked = current.relations.filter(
+      r => (r.from === entity.name || r.to === entity.name) && !removedRelations.has(relationKey(r))
+    );
+    if (now.entityType !== entity.entityType || later.length > 0 || linked.length > 0) {
+      problems.push(`entity ${entity.name} was changed later, not deleting it`);
+      continue;
+    }
+    applicable.deletedEntities.push(entity);
+  }
+
+  for (const deletion of inverse.deletedObservations) {
+    const now = entities.get(deletion.entityName);
+    const present = deletion.observations.filter(o => now?.observations.includes(o));
+    const missing = deletion.observations.filter(o => !now?.observations.includes(o));
+    if (present.length > 0) applicable.deletedObservations.push({ entityName: deletion.entityName, observations: present });
+    for (const observation of missing) {
+      problems.push(`observation "${observation}" on ${deletion.entityName} no longer exists`);
+    }
+  }
+
+  const restored = new Set<string>();
+  for (const entity of inverse.createdEntities) {
+    if (entities.has(entity.name)) {
+      problems.push(`entity ${entity.name} was created again later, not restoring it`);
+      continue;
+    }
+    applicable.createdEntities.push(entity);
+    restored.add(entity.name);
+  }
+
+  for (const addition of inverse.addedObservations) {
+    const now = entities.get(addition.entityName);
+    if (!now && !restored.has(addition.entityName)) {
+      problems.push(`entity ${addition.entityName} no longer exists, cannot restore its observations`);
+      continue;
+    }
+    const contents = addition.contents.filter(o => !now?.observations.includes(o));
+    if (contents.length > 0) applicable.addedObservations.push({ entityName: addition.entityName, contents });
+    for (const observation of addition.contents.filter(o => !contents.includes(o))) {
+      problems.push(`observation "${observation}" on ${addition.entityName} was added again later`);
+    }
+  }
+
+  for (const relation of inverse.createdRelations) {
+    const endpointsExist = [relation.from, relation.to].every(name => entities.has(name) || restored.has(name));
+    if (!endpointsExist) problems.push(`relation ${describeRelation(relation)} has a missing endpoint`);
+    else if (relations.has(relationKey(relation))) problems.push(`relation ${describeRelation(relation)} already exists`);
+    else applicable.createdRelations.push(relation);
+  }
+
+  return { applicable, problems };
+}
+
+function describeRelation(relation: Relation): string {
+  return `${relation.from} -[${relation.relationType}]-> ${relation.to}`;
+}
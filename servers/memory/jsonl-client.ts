@@ -0,0 +1,127 @@
+/**
+ * JSONL file-backed memory client
+ *
+ * Persists the knowledge graph in the same line format used by
+ * @modelcontextprotocol/server-memory (one `{"type":"entity",...}` or
+ * `{"type":"relation",...}` object per line), so it can share a file
+ * such as code-mode-memory.jsonl with the upstream server.
+ *
+ * The file is loaded on first use. After every mutating tool call the
+ * whole graph is written to a temporary file which is then renamed over
+ * the original, so readers never observe a half-written file.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { readFile, writeFile, rename } from 'node:fs/promises';
+import { MockMCPClient, MUTATING_TOOLS } from './client.js';
+import type { Graph, EntityWithType, RelationWithType } from './types.js';
+
+/**
+ * Parse a graph from server-memory JSONL text
+ */
+export function parseGraphJsonl(text: string): Graph {
+  const graph: Graph = { entities: [], relations: [] };
+  for (const line of text.split('\n')) {
+    if (line.trim() === '') continue;
+    const item = JSON.parse(line) as Partial<EntityWithType> | Partial<RelationWithType>;
+    if (item.type === 'entity') {
+      const entity = item as EntityWithType;
+      graph.entities.push({
+        name: entity.name,
+        entityType: entity.entityType,
+        observations: [...entity.observations],
+      });
+    } else if (item.type === 'relation') {
+      const relation = item as RelationWithType;
+      graph.relations.push({
+        from: relation.from,
+        to: relation.to,
+        relationType: relation.relationType,
+      });
+    }
+  }
+  return graph;
+}
+
+/**
+ * Serialize a graph to server-memory JSONL text
+ */
+export function serializeGraphJsonl(graph: Graph): string {
+  const lines = [
+    ...graph.entities.map(e =>
+      JSON.stringify({ type: 'entity', name: e.name, entityType: e.entityType, observations: e.observations })
+    ),
+    ...graph.relations.map(r =>
+      JSON.stringify({ type: 'relation', from: r.from, to: r.to, relationType: r.relationType })
+    ),
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Read a graph from a JSONL file. A missing file is an empty graph.
+ */
+export async function loadGraphFile(filePath: string): Promise<Graph> {
+  try {
+    return parseGraphJsonl(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { entities: [], relations: [] };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a graph to a JSONL file atomically (write-then-rename)
+ */
+export async function saveGraphFile(filePath: string, graph: Graph): Promise<void> {
+  // Unique per write, so overlapping saves never share a temp file
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  await writeFile(tempPath, serializeGraphJsonl(graph), 'utf-8');
+  await rename(tempPath, filePath);
+}
+
+/**
+ * Memory client that keeps the graph in a JSONL file
+ */
+export class JsonlMCPClient extends MockMCPClient {
+  private loaded: Promise<void> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string) {
+    super();
+  }
+
+  async callTool<T>(toolName: string, params: Record<string, unknown>): Promise<T> {
+    await this.load();
+    const result = await super.callTool<T>(toolName, params);
+    if (MUTATING_TOOLS.has(toolName)) {
+      await this.save();
+    }
+    return result;
+  }
+
+  /**
+   * Load the file into memory. Called automatically on first use.
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = loadGraphFile(this.filePath).then(graph => this.loadData(graph));
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Write the current graph back to the file. Writes are serialized
+   * so a later snapshot never lands before an earlier one.
+   */
+  private save(): Promise<void> {
+    const write = this.pendingWrite.then(async () => {
+      const graph = await super.callTool<Graph>('read_graph', {});
+      await saveGraphFile(this.filePath, graph);
+    });
+    this.pendingWrite = write.catch(() => {});
+    return write;
+  }
+}
@@ -16,9 +16,19 @@
  *   await memory.addObservations([
  *     { entityName: active[0].name, contents: ['processed: true'] }
  *   ]);
+ *
+ * Every wrapper checks its arguments against the types in types.ts before
+ * calling the server and throws a ValidationError (code `INVALID_INPUT`)
+ * if they do not match. Errors carry a `code` (see MemoryErrorCode), so
+ * agent code can handle a missing entity differently from bad input or an
+ * unreachable server.
  */
 
 import { callMCPTool } from './client.js';
+import { parseAttribute, coerceAttribute } from './query.js';
+import { findNeighbors, findShortestPath, extractSubgraph, findComponents } from './graph.js';
+import { ConflictError, NotFoundError, ValidationError } from './errors.js';
+import { schemas, array, string, number } from './schema.js';
 import type {
   Graph,
   Entity,
@@ -28,6 +38,16 @@ import type {
   AddObservationResult,
   DeleteObservationInput,
   SearchResult,
+  SearchOptions,
+  AttributeValue,
+  Attributes,
+  GetAttributesOptions,
+  QueryOptions,
+  QueryResult,
+  TraversalOptions,
+  NeighborOptions,
+  Neighborhood,
+  GraphPath,
 } from './types.js';
 
 /**
@@ -57,6 +77,7 @@ export async function readGraph(): Promise<Graph> {
 export async function createEntities(
   entities: CreateEntityInput[]
 ): Promise<{ entities: Entity[] }> {
+  array(schemas.CreateEntityInput).parse(entities, 'entities');
   return callMCPTool<{ entities: Entity[] }>('create_entities', { entities });
 }
 
@@ -74,6 +95,7 @@ export async function createEntities(
 export async function createRelations(
   relations: CreateRelationInput[]
 ): Promise<{ relations: CreateRelationInput[] }> {
+  array(schemas.CreateRelationInput).parse(relations, 'relations');
   return callMCPTool<{ relations: CreateRelationInput[] }>('create_relations', { relations });
 }
 
@@ -91,6 +113,7 @@ export async function createRelations(
 export async function addObservations(
   observations: AddObservationInput[]
 ): Promise<{ results: AddObservationResult[] }> {
+  array(schemas.AddObservationInput).parse(observations, 'observations');
   return callMCPTool<{ results: AddObservationResult[] }>('add_observations', { observations });
 }
 
@@ -106,6 +129,7 @@ export async function addObservations(
 export async function deleteEntities(
   entityNames: string[]
 ): Promise<{ success: boolean; message: string }> {
+  array(string).parse(entityNames, 'entityNames');
   return callMCPTool<{ success: boolean; message: string }>('delete_entities', { entityNames });
 }
 
@@ -123,6 +147,7 @@ export async function deleteEntities(
 export async function deleteObservations(
   deletions: DeleteObservationInput[]
 ): Promise<{ success: boolean }> {
+  array(schemas.DeleteObservationInput).parse(deletions, 'deletions');
   return callMCPTool<{ success: boolean }>('delete_observations', { deletions });
 }
 
@@ -140,30 +165,42 @@ export async function deleteObservations(
 export async function deleteRelations(
   relations: CreateRelationInput[]
 ): Promise<{ success: boolean }> {
+  array(schemas.CreateRelationInput).parse(relations, 'relations');
   return callMCPTool<{ success: boolean }>('delete_relations', { relations });
 }
 
 /**
  * Search for nodes matching a query
  *
- * Searches across entity names, types, and observation content.
+ * Searches across entity names, types, and observation content. By default
+ * any entity containing the query as a substring matches, in no particular
+ * order. With `ranked: true` the query is split into words and the best
+ * `limit` entities are returned by BM25 relevance, with a score and the
+ * matching text for each in `matches`.
  *
  * @param query - Search string to match
- * @returns Matching entities and their relations
+ * @param options - Ranked search, result count, prefix and fuzzy matching
+ * @returns Matching entities and the relations with either end among them
  *
  * @example
  * const results = await searchNodes('active');
  * const activeServers = results.entities.filter(e => e.entityType === 'Server');
+ *
+ * @example
+ * const { entities, matches } = await searchNodes('databse outage', { ranked: true, fuzzy: 1, limit: 5 });
+ * console.log(matches.map(m => `${m.name} ${m.score}: ${m.snippets[0]}`));
  */
-export async function searchNodes(query: string): Promise<SearchResult> {
-  return callMCPTool<SearchResult>('search_nodes', { query });
+export async function searchNodes(query: string, options: SearchOptions = {}): Promise<SearchResult> {
+  string.parse(query, 'query');
+  schemas.SearchOptions.parse(options, 'options');
+  return callMCPTool<SearchResult>('search_nodes', { ...options, query });
 }
 
 /**
  * Open specific nodes by their names
  *
  * @param names - Array of entity names to retrieve
- * @returns The requested entities
+ * @returns The requested entities and the relations with either end among them
  *
  * @example
  * const result = await openNodes(['Server1', 'Server2']);
@@ -172,5 +209,205 @@ export async function searchNodes(query: string): Promise<SearchResult> {
  * }
  */
 export async function openNodes(names: string[]): Promise<SearchResult> {
+  array(string).parse(names, 'names');
   return callMCPTool<SearchResult>('open_nodes', { names });
 }
+
+/**
+ * Find entities with a structured query, evaluated by the memory server
+ *
+ * Unlike searchNodes, conditions match fields exactly, so `status = active`
+ * does not match `status: inactive`. Fields are `name`, `entityType`,
+ * `observation` or a `key: value` observation key. Operators: `=`, `!=`,
+ * `~` and `!~` (regex, e.g. `/^Rec/i`), `<`, `<=`, `>`, `>=`, `in (a, b)`
+ * and `exists`, combined with AND, OR, NOT and parentheses.
+ *
+ * @param query - Query text; an empty query matches every entity
+ * @param options - Sort fields (`-` prefix for descending), limit and offset
+ * @returns One page of entities, the relations with either end among them and the total number of matches
+ * @throws QuerySyntaxError (code `INVALID_QUERY`) if the query cannot be parsed
+ *
+ * @example
+ * const { entities, total } = await queryNodes(
+ *   'entityType = TestRecord AND status = active AND category in (A, B)',
+ *   { sort: ['category', '-count'], limit: 10 }
+ * );
+ */
+export async function queryNodes(query: string, options: QueryOptions = {}): Promise<QueryResult> {
+  string.parse(query, 'query');
+  schemas.QueryOptions.parse(options, 'options');
+  return callMCPTool<QueryResult>('query_nodes', { ...options, query });
+}
+
+/**
+ * Find the entities related to an entity, up to `depth` hops away
+ *
+ * @param name - Entity to start from
+ * @param options - Relation types to follow, direction (`out`, `in` or `both`) and depth (default: 1)
+ * @returns Neighbors nearest first, the relation that reached each, and hops by name
+ * @throws NotFoundError (code `NOT_FOUND`) if the entity does not exist
+ *
+ * @example
+ * const { entities, distances } = await neighbors('Server1', { relationType: 'connects_to', direction: 'out', depth: 2 });
+ */
+export async function neighbors(name: string, options: NeighborOptions = {}): Promise<Neighborhood> {
+  string.parse(name, 'name');
+  schemas.NeighborOptions.parse(options, 'options');
+  return findNeighbors(await readGraph(), name, options);
+}
+
+/**
+ * Find the fewest-hop path between two entities
+ *
+ * @param from - Start entity
+ * @param to - End entity
+ * @param options - Relation types to follow and direction (default: `both`)
+ * @returns Entities along the path and the relation crossed at each hop, or null if not connected
+ * @throws NotFoundError (code `NOT_FOUND`) if either entity does not exist
+ *
+ * @example
+ * const path = await shortestPath('Server1', 'Database2');
+ * console.log(path?.entities.map(e => e.name).join(' → '));
+ */
+export async function shortestPath(from: string, to: string, options: TraversalOptions = {}): Promise<GraphPath | null> {
+  string.parse(from, 'from');
+  string.parse(to, 'to');
+  schemas.TraversalOptions.parse(options, 'options');
+  return findShortestPath(await readGraph(), from, to, options);
+}
+
+/**
+ * Get some entities, optionally with their neighbors, and every relation between them
+ *
+ * @param names - Entities to include; unknown names are skipped
+ * @param options - Hops of neighbors to add (default: 0), relation types and direction to follow
+ * @returns The entities and the relations between them
+ *
+ * @example
+ * const { entities, relations } = await subgraph(['Server1'], { depth: 1 });
+ */
+export async function subgraph(names: string[], options: NeighborOptions = {}): Promise<SearchResult> {
+  array(string).parse(names, 'names');
+  schemas.NeighborOptions.parse(options, 'options');
+  return extractSubgraph(await readGraph(), names, options);
+}
+
+/**
+ * Group entities that are connected by relations, in either direction
+ *
+ * @param options - Only count relations of these types
+ * @returns Entity names per group, largest group first; unrelated entities are groups of one
+ *
+ * @example
+ * const groups = await connectedComponents();
+ * const isolated = groups.filter(group => group.length === 1).flat();
+ */
+export async function connectedComponents(options: Pick<TraversalOptions, 'relationType'> = {}): Promise<string[][]> {
+  schemas.ComponentOptions.parse(options, 'options');
+  return findComponents(await readGraph(), options);
+}
+
+/**
+ * Read the `key: value` observations of an entity as attributes
+ *
+ * Observations without a `key: ` prefix are ignored. When a key appears
+ * more than once, the newest (last) observation wins.
+ *
+ * @param name - Entity to read
+ * @param options - Pass `{ coerce: true }` to get numbers and booleans
+ * @returns Attributes by key
+ * @throws NotFoundError (code `NOT_FOUND`) if the entity does not exist
+ *
+ * @example
+ * const { status, count } = await getAttributes('Record_007', { coerce: true });
+ * // status === 'active', count === 1
+ */
+export async function getAttributes(name: string, options: GetAttributesOptions = {}): Promise<Attributes> {
+  string.parse(name, 'name');
+  schemas.GetAttributesOptions.parse(options, 'options');
+  const attributes: Attributes = {};
+  for (const observation of (await openEntity(name)).observations) {
+    const attribute = parseAttribute(observation);
+    if (attribute) {
+      attributes[attribute.key] = options.coerce ? coerceAttribute(attribute.value) : attribute.value;
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Set an attribute, replacing every earlier value of the key
+ *
+ * The new `key: value` observation is added before the old ones are
+ * deleted, so a run that fails in between never loses the attribute.
+ *
+ * @param name - Entity to update
+ * @param key - Attribute key, e.g. `status` (no `:` or line breaks)
+ * @param value - New value, stored as text (no line breaks)
+ * @throws NotFoundError (code `NOT_FOUND`) if the entity does not exist
+ *
+ * @example
+ * await setAttribute('Record_007', 'status', 'archived');
+ * await setAttribute('Record_007', 'processed', true);
+ */
+export async function setAttribute(name: string, key: string, value: AttributeValue): Promise<void> {
+  string.parse(name, 'name');
+  string.parse(key, 'key');
+  schemas.AttributeValue.parse(value, 'value');
+  const observation = formatAttribute(key, value);
+  const entity = await openEntity(name);
+  const stale = entity.observations.filter(o => o !== observation && parseAttribute(o)?.key === key.trim());
+
+  if (!entity.observations.includes(observation)) {
+    await addObservations([{ entityName: name, contents: [observation] }]);
+  }
+  if (stale.length > 0) {
+    await deleteObservations([{ entityName: name, observations: stale }]);
+  }
+}
+
+/**
+ * Add to a numeric attribute; a missing attribute counts as 0
+ *
+ * @param name - Entity to update
+ * @param key - Attribute key, e.g. `count`
+ * @param by - Amount to add (default: 1)
+ * @returns The new value
+ * @throws NotFoundError (code `NOT_FOUND`) if the entity does not exist
+ * @throws ConflictError (code `CONFLICT`) if the current value is not a number
+ *
+ * @example
+ * const count = await incrementAttribute('Record_007', 'count');
+ */
+export async function incrementAttribute(name: string, key: string, by = 1): Promise<number> {
+  string.parse(name, 'name');
+  string.parse(key, 'key');
+  number.parse(by, 'by');
+  const current = (await getAttributes(name, { coerce: true }))[key.trim()] ?? 0;
+  if (typeof current !== 'number') {
+    throw new ConflictError(`Attribute "${key.trim()}" of ${name} is not a number: ${JSON.stringify(current)}`);
+  }
+  const next = current + by;
+  await setAttribute(name, key, next);
+  return next;
+}
+
+async function openEntity(name: string): Promise<Entity> {
+  const entity = (await openNodes([name])).entities.find(e => e.name === name);
+  if (!entity) throw new NotFoundError(`Entity not found: ${name}`);
+  return entity;
+}
+
+function formatAttribute(key: string, value: AttributeValue): string {
+  const trimmed = key.trim();
+  if (!trimmed || /[:\n]/.test(trimmed)) {
+    throw new ValidationError(`Invalid attribute key: ${JSON.stringify(key)}`);
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new ValidationError(`Attribute "${trimmed}" must be a finite number, got ${value}`);
+  }
+  if (typeof value === 'string' && /[\r\n]/.test(value)) {
+    throw new ValidationError(`Attribute "${trimmed}" must be a single line, got ${JSON.stringify(value)}`);
+  }
+  return `${trimmed}: ${String(value).trim()}`;
+}
@@ -0,0 +1,191 @@
+/**
+ * Copy-on-write overlay client for dry runs
+ *
+ * Wraps the real memory client so that agent code can run without changing
+ * anything. Reads go to the real client until the first write; at that
+ * point the graph is copied into an in-memory overlay, and from then on
+ * reads and writes only touch the overlay.
+ *
+ * Afterwards diff() reports what would have changed, as a GraphDiff that
+ * can be reviewed and later applied for real with applyGraphDiff().
+ *
+ * Usage:
+ *
+ *   const overlay = new OverlayMCPClient(getMCPClient());
+ *   await runWithMCPClients({ memory: overlay }, () => executeCode(code));
+ *   const diff = await overlay.diff();
+ *   // ...review...
+ *   await applyGraphDiff(diff);
+ */
+
+import { getMCPClient, MockMCPClient, MUTATING_TOOLS, type MCPClientInterface } from './client.js';
+import type { Entity, Relation, Graph, AddObservationInput, DeleteObservationInput } from './types.js';
+
+/**
+ * Changes between two versions of the graph
+ *
+ * Each list has the shape of the matching tool's input, so a diff can be
+ * applied with plain tool calls. An entity whose type changed appears as
+ * deleted and created.
+ */
+export interface GraphDiff {
+  createdEntities: Entity[];
+  deletedEntities: Entity[];
+  addedObservations: AddObservationInput[];
+  deletedObservations: DeleteObservationInput[];
+  createdRelations: Relation[];
+  deletedRelations: Relation[];
+}
+
+/**
+ * A GraphDiff with no changes
+ */
+export function emptyGraphDiff(): GraphDiff {
+  return {
+    createdEntities: [],
+    deletedEntities: [],
+    addedObservations: [],
+    deletedObservations: [],
+    createdRelations: [],
+    deletedRelations: [],
+  };
+}
+
+/**
+ * Whether a diff contains no changes
+ */
+export function isEmptyGraphDiff(diff: GraphDiff): boolean {
+  return Object.values(diff).every(list => list.length === 0);
+}
+
+/**
+ * Compute the changes that turn `before` into `after`
+ */
+export function diffGraphs(before: Graph, after: Graph): GraphDiff {
+  const diff = emptyGraphDiff();
+  const beforeEntities = new Map(before.entities.map(e => [e.name, e]));
+  const afterEntities = new Map(after.entities.map(e => [e.name, e]));
+
+  for (const [name, old] of beforeEntities) {
+    const current = afterEntities.get(name);
+    if (!current || current.entityType !== old.entityType) {
+      diff.deletedEntities.push(toEntity(old));
+      continue;
+    }
+    const added = current.observations.filter(o => !old.observations.includes(o));
+    const deleted = old.observations.filter(o => !current.observations.includes(o));
+    if (added.length > 0) diff.addedObservations.push({ entityName: name, contents: unique(added) });
+    if (deleted.length > 0) diff.deletedObservations.push({ entityName: name, observations: unique(deleted) });
+  }
+  for (const [name, current] of afterEntities) {
+    const old = beforeEntities.get(name);
+    if (!old || old.entityType !== current.entityType) {
+      diff.createdEntities.push(toEntity(current));
+    }
+  }
+
+  const key = (r: Relation) => JSON.stringify([r.from, r.to, r.relationType]);
+  const beforeRelations = new Map(before.relations.map(r => [key(r), toRelation(r)]));
+  const afterRelations = new Map(after.relations.map(r => [key(r), toRelation(r)]));
+  for (const [k, relation] of beforeRelations) {
+    if (!afterRelations.has(k)) diff.deletedRelations.push(relation);
+  }
+  for (const [k, relation] of afterRelations) {
+    if (!beforeRelations.has(k)) diff.createdRelations.push(relation);
+  }
+  return diff;
+}
+
+/**
+ * One-line description of a diff, e.g. `1 entity created, 3 observations added`
+ */
+export function summarizeGraphDiff(diff: GraphDiff): string {
+  const count = (n: number, singular: string, plural: string, verb: string) =>
+    n > 0 ? [`${n} ${n === 1 ? singular : plural} ${verb}`] : [];
+  const parts = [
+    ...count(diff.createdEntities.length, 'entity', 'entities', 'created'),
+    ...count(diff.deletedEntities.length, 'entity', 'entities', 'deleted'),
+    ...count(diff.addedObservations.reduce((n, o) => n + o.contents.length, 0), 'observation', 'observations', 'added'),
+    ...count(diff.deletedObservations.reduce((n, o) => n + o.observations.length, 0), 'observation', 'observations', 'deleted'),
+    ...count(diff.createdRelations.length, 'relation', 'relations', 'created'),
+    ...count(diff.deletedRelations.length, 'relation', 'relations', 'deleted'),
+  ];
+  return parts.length > 0 ? parts.join(', ') : 'no changes';
+}
+
+/**
+ * Apply a diff to a client (the memory client by default)
+ *
+ * Deletions run before creations, so an entity that was replaced is
+ * removed and then created again. The diff is applied as-is: changes made
+ * to the graph since the diff was computed are not detected.
+ */
+export async function applyGraphDiff(
+  diff: GraphDiff,
+  client: MCPClientInterface = getMCPClient()
+): Promise<void> {
+  const steps: Array<[string, string, unknown[]]> = [
+    ['delete_relations', 'relations', diff.deletedRelations],
+    ['delete_observations', 'deletions', diff.deletedObservations],
+    ['delete_entities', 'entityNames', diff.deletedEntities.map(e => e.name)],
+    ['create_entities', 'entities', diff.createdEntities],
+    ['add_observations', 'observations', diff.addedObservations],
+    ['create_relations', 'relations', diff.createdRelations],
+  ];
+  for (const [toolName, param, items] of steps) {
+    if (items.length > 0) {
+      await client.callTool(toolName, { [param]: items });
+    }
+  }
+}
+
+/**
+ * Memory client that keeps writes in an in-memory copy of the graph
+ */
+export class OverlayMCPClient implements MCPClientInterface {
+  private overlay: MockMCPClient | null = null;
+  private snapshot: Graph | null = null;
+  private copying: Promise<MockMCPClient> | null = null;
+
+  constructor(private readonly base: MCPClientInterface) {}
+
+  async callTool<T>(toolName: string, params: Record<string, unknown>): Promise<T> {
+    if (!this.overlay && !MUTATING_TOOLS.has(toolName)) {
+      return this.base.callTool<T>(toolName, params);
+    }
+    const overlay = await this.getOverlay();
+    return overlay.callTool<T>(toolName, structuredClone(params));
+  }
+
+  /**
+   * Changes made so far, relative to the graph at the first write
+   */
+  async diff(): Promise<GraphDiff> {
+    if (!this.overlay || !this.snapshot) return emptyGraphDiff();
+    return diffGraphs(this.snapshot, await this.overlay.callTool<Graph>('read_graph', {}));
+  }
+
+  private getOverlay(): Promise<MockMCPClient> {
+    if (this.overlay) return Promise.resolve(this.overlay);
+    this.copying ??= this.base.callTool<Graph>('read_graph', {}).then(graph => {
+      this.snapshot = structuredClone(graph);
+      const overlay = new MockMCPClient();
+      overlay.loadData(structuredClone(graph));
+      this.overlay = overlay;
+      return overlay;
+    });
+    return this.copying;
+  }
+}
+
+function toEntity(entity: Entity): Entity {
+  return { name: entity.name, entityType: entity.entityType, observations: [...entity.observations] };
+}
+
+function toRelation(relation: Relation): Relation {
+  return { from: relation.from, to: relation.to, relationType: relation.relationType };
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
@@ -0,0 +1,227 @@
+/**
+ * Memory access policy
+ *
+ * Deterministic rules for what agent code may do with the memory server,
+ * checked at the client boundary, so they hold no matter what code the
+ * model writes:
+ *
+ *   {
+ *     "deny": ["deleteEntities"],
+ *     "maxCreatedEntities": 20,
+ *     "writableEntityTypes": ["Task", "Note"]
+ *   }
+ *
+ * A PolicyMCPClient checks every call before forwarding it. A call that
+ * breaks a rule is rejected as a whole with a PolicyError and never reaches
+ * the backend. After the first violation every further call is rejected
+ * too, so code that catches the error cannot carry on. executeCode() puts
+ * an overlay behind it and applies the run's writes only if the run
+ * succeeds.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { MUTATING_TOOLS, mutatedEntityNames, type MCPClientInterface } from './client.js';
+import type { SearchResult } from './types.js';
+
+export interface Policy {
+  /** Wrapper methods that may be called, e.g. `["readGraph", "searchNodes"]` (default: all) */
+  allow?: string[];
+  /** Wrapper methods that may not be called */
+  deny?: string[];
+  /** Reject every call that would change the graph */
+  readOnly?: boolean;
+  /** Most entities one execution may create */
+  maxCreatedEntities?: number;
+  /** Most entities one execution may delete */
+  maxDeletedEntities?: number;
+  /** Entity types that writes may touch (default: all) */
+  writableEntityTypes?: string[];
+}
+
+/** Memory wrapper method for each tool */
+export const MEMORY_METHODS: Readonly<Record<string, string>> = {
+  read_graph: 'readGraph',
+  create_entities: 'createEntities',
+  create_relations: 'createRelations',
+  add_observations: 'addObservations',
+  delete_entities: 'deleteEntities',
+  delete_observations: 'deleteObservations',
+  delete_relations: 'deleteRelations',
+  search_nodes: 'searchNodes',
+  open_nodes: 'openNodes',
+  query_nodes: 'queryNodes',
+};
+
+/**
+ * Thrown when a call breaks the policy
+ */
+export class PolicyError extends Error {
+  readonly code = 'POLICY_VIOLATION';
+
+  constructor(message: string) {
+    super(`Policy violation: ${message}`);
+    this.name = 'PolicyError';
+  }
+}
+
+/**
+ * Validate a parsed policy file
+ *
+ * @throws On unknown settings, unknown method names or wrong value types
+ */
+export function parsePolicy(value: unknown): Policy {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Policy must be a JSON object');
+  }
+  const methods = new Set(Object.values(MEMORY_METHODS));
+  const policy: Policy = {};
+
+  for (const [key, setting] of Object.entries(value)) {
+    switch (key) {
+      case 'allow':
+      case 'deny': {
+        const names = stringList(key, setting);
+        const unknown = names.filter(name => !methods.has(name));
+        if (unknown.length > 0) {
+          throw new Error(`Unknown memory method in "${key}": ${unknown.join(', ')}`);
+        }
+        policy[key] = names;
+        break;
+      }
+      case 'readOnly':
+        if (typeof setting !== 'boolean') throw new Error('"readOnly" must be true or false');
+        policy.readOnly = setting;
+        break;
+      case 'maxCreatedEntities':
+      case 'maxDeletedEntities':
+        if (!Number.isInteger(setting) || (setting as number) < 0) {
+          throw new Error(`"${key}" must be a non-negative integer`);
+        }
+        policy[key] = setting as number;
+        break;
+      case 'writableEntityTypes':
+        policy.writableEntityTypes = stringList(key, setting);
+        break;
+      default:
+        throw new Error(`Unknown policy setting: ${key}`);
+    }
+  }
+  return policy;
+}
+
+/**
+ * Read and validate a policy file
+ */
+export async function loadPolicy(file: string): Promise<Policy> {
+  try {
+    return parsePolicy(JSON.parse(await readFile(file, 'utf-8')));
+  } catch (error) {
+    throw new Error(`Invalid policy in ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Memory client that enforces a policy for one execution
+ *
+ * Creation and deletion caps count across all calls made through the same
+ * instance, so use a new instance per execution.
+ */
+export class PolicyMCPClient implements MCPClientInterface {
+  private created = 0;
+  private deleted = 0;
+  /** The first violation, if any */
+  violation: PolicyError | null = null;
+
+  constructor(
+    private readonly client: MCPClientInterface,
+    private readonly policy: Policy
+  ) {}
+
+  async callTool<T>(toolName: string, params: Record<string, unknown>): Promise<T> {
+    if (this.violation) throw this.violation;
+    try {
+      await this.check(toolName, params);
+    } catch (error) {
+      if (error instanceof PolicyError) this.violation = error;
+      throw error;
+    }
+    return this.client.callTool<T>(toolName, params);
+  }
+
+  private async check(toolName: string, params: Record<string, unknown>): Promise<void> {
+    const { allow, deny, readOnly, maxCreatedEntities, maxDeletedEntities, writableEntityTypes } = this.policy;
+    const method = MEMORY_METHODS[toolName] ?? toolName;
+
+    if (deny?.includes(method) || (allow && !allow.includes(method))) {
+      throw new PolicyError(`memory.${method} is not allowed`);
+    }
+    if (!MUTATING_TOOLS.has(toolName)) return;
+    if (readOnly) {
+      throw new PolicyError(`memory is read-only, memory.${method} is not allowed`);
+    }
+
+    // Counted before the type lookup below, so concurrent calls cannot
+    // both slip under a cap
+    if (toolName === 'create_entities' && maxCreatedEntities !== undefined) {
+      const count = list<{ name?: unknown }>(params.entities).length;
+      if (this.created + count > maxCreatedEntities) {
+        throw new PolicyError(
+          `creating ${count} more ${count === 1 ? 'entity' : 'entities'} would exceed the limit of ` +
+            `${maxCreatedEntities} per run (${this.created} created so far)`
+        );
+      }
+      this.created += count;
+    }
+    if (toolName === 'delete_entities' && maxDeletedEntities !== undefined) {
+      const count = new Set(list(params.entityNames)).size;
+      if (this.deleted + count > maxDeletedEntities) {
+        throw new PolicyError(
+          `deleting ${count} more ${count === 1 ? 'entity' : 'entities'} would exceed the limit of ` +
+            `${maxDeletedEntities} per run (${this.deleted} deleted so far)`
+        );
+      }
+      this.deleted += count;
+    }
+
+    if (writableEntityTypes) {
+      const blocked = new Map<string, Set<string>>();
+      for (const [name, entityType] of await this.touchedEntities(toolName, params)) {
+        if (writableEntityTypes.includes(entityType)) continue;
+        blocked.set(entityType, (blocked.get(entityType) ?? new Set()).add(name));
+      }
+      if (blocked.size > 0) {
+        const details = Array.from(blocked, ([type, names]) => `${type} (${Array.from(names).join(', ')})`);
+        throw new PolicyError(`memory.${method} would change entities of types that are not writable: ${details.join('; ')}`);
+      }
+    }
+  }
+
+  /**
+   * Name and type of every entity a write would touch, including existing
+   * entities that a creation would replace
+   */
+  private async touchedEntities(toolName: string, params: Record<string, unknown>): Promise<Array<[string, string]>> {
+    const touched: Array<[string, string]> = [];
+    if (toolName === 'create_entities') {
+      const entities = list<{ name?: unknown; entityType?: unknown }>(params.entities);
+      touched.push(...entities.map((e): [string, string] => [String(e?.name), String(e?.entityType)]));
+    }
+    const names = mutatedEntityNames(toolName, params);
+    if (names.length > 0) {
+      const existing = await this.client.callTool<SearchResult>('open_nodes', { names });
+      touched.push(...existing.entities.map((e): [string, string] => [e.name, e.entityType]));
+    }
+    return touched;
+  }
+}
+
+function stringList(key: string, value: unknown): string[] {
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+    throw new Error(`"${key}" must be an array of strings`);
+  }
+  return value;
+}
+
+function list<T = unknown>(value: unknown): T[] {
+  return Array.isArray(value) ? (value as T[]) : [];
+}
@@ -0,0 +1,400 @@
+/**
+ * Structured entity queries
+ *
+ * A small filter language over entities, evaluated next to the graph (the
+ * `query_nodes` tool) so that only the matching page reaches agent code:
+ *
+ *   entityType = TestRecord AND status = active AND category in (A, B)
+ *   NOT (status = inactive OR count > 3)
+ *   name ~ /^Record_0[0-4]\d$/
+ *
+ * Fields are `name`, `entityType`, `observation` (matches if any
+ * observation does) or the key of a `key: value` observation, where the
+ * newest value wins.
+ *
+ *   =, !=          exact match
+ *   ~, !~          regular expression, as `/pattern/flags` or a plain value
+ *   <, <=, >, >=   numeric when both sides are numbers, otherwise text order
+ *   in (a, b)      exact match against any of the values
+ *   exists         the field is present
+ *
+ * Conditions combine with AND, OR, NOT and parentheses; AND binds tighter
+ * than OR. Values containing spaces or operator characters are quoted:
+ * `title = "on call"`. An empty query matches every entity.
+ *
+ * Matching is limited to QUERY_TIMEOUT_MS, so a pattern that backtracks
+ * without end, such as `/^(a+)+$/`, fails the query instead of stalling
+ * the server.
+ */
+
+import vm from 'node:vm';
+import type { MCPClientInterface } from './client.js';
+import { ValidationError } from './errors.js';
+import { rankedSearch } from './search.js';
+import type { AttributeValue, Entity, Graph, QueryOptions, QueryResult, SearchOptions } from './types.js';
+
+/**
+ * Thrown when a query cannot be parsed
+ */
+export class QuerySyntaxError extends Error {
+  readonly code = 'INVALID_QUERY';
+
+  constructor(message: string, readonly position: number) {
+    super(`Invalid query at position ${position + 1}: ${message}`);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+export type EntityPredicate = (entity: Entity) => boolean;
+
+const NUMBER = /^-?\d+(\.\d+)?(e[+-]?\d+)?$/i;
+
+/** Time runQuery() may spend matching entities */
+const QUERY_TIMEOUT_MS = 1000;
+
+/** Runs the `filter` global of filterContext under a vm timeout */
+const FILTER_SCRIPT = new vm.Script('filter()', { filename: 'query-filter.js' });
+const filterContext = vm.createContext(Object.create(null));
+
+/**
+ * Split a `key: value` observation, or return null for free-form text
+ */
+export function parseAttribute(observation: string): { key: string; value: string } | null {
+  const match = /^([^:\n]+):[ \t]*(.*)$/s.exec(observation);
+  return match && match[1].trim() ? { key: match[1].trim(), value: match[2].trim() } : null;
+}
+
+/**
+ * Read `"3"` as 3 and `"true"`/`"false"` as booleans; other text is kept
+ */
+export function coerceAttribute(value: string): AttributeValue {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return NUMBER.test(value) ? Number(value) : value;
+}
+
+/**
+ * Compile a query into a predicate over entities. Its patterns run without a
+ * time limit; runQuery() applies one.
+ *
+ * @throws QuerySyntaxError
+ */
+export function compileQuery(query: string): EntityPredicate {
+  return new QueryParser(query).parse();
+}
+
+/**
+ * Filter, sort and page a graph's entities
+ *
+ * Relations are those with either end among the returned entities, as
+ * with searchNodes and openNodes.
+ *
+ * @throws QuerySyntaxError, or ValidationError on invalid options or when
+ *   matching takes longer than QUERY_TIMEOUT_MS
+ */
+export function runQuery(graph: Graph, query: string, options: QueryOptions = {}): QueryResult {
+  const { sort = [], offset = 0, limit } = options;
+  if (typeof query !== 'string') throw new ValidationError('"query" must be a string');
+  if (!Array.isArray(sort) || !sort.every(field => typeof field === 'string')) {
+    throw new ValidationError('"sort" must be an array of field names');
+  }
+  for (const [name, value] of [['offset', offset], ['limit', limit]] as const) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      throw new ValidationError(`"${name}" must be a non-negative integer`);
+    }
+  }
+
+  const matches = filterWithinTimeout(graph.entities, compileQuery(query));
+  if (sort.length > 0) matches.sort(compareBy(sort));
+  const entities = matches.slice(offset, limit === undefined ? undefined : offset + limit);
+  const names = new Set(entities.map(e => e.name));
+  return {
+    entities,
+    relations: graph.relations.filter(r => names.has(r.from) || names.has(r.to)),
+    total: matches.length,
+  };
+}
+
+/**
+ * Client that answers `query_nodes` and ranked `search_nodes` for servers
+ * without them (such as the reference memory server) by reading the graph
+ * on the host. Agent code still only receives the matching page.
+ */
+export class QueryingMCPClient implements MCPClientInterface {
+  constructor(private readonly client: MCPClientInterface) {}
+
+  async callTool<T>(toolName: string, params: Record<string, unknown>): Promise<T> {
+    if (toolName === 'query_nodes') {
+      const graph = await this.client.callTool<Graph>('read_graph', {});
+      return runQuery(graph, params.query as string, params as QueryOptions) as T;
+    }
+    if (toolName === 'search_nodes' && params.ranked) {
+      const graph = await this.client.callTool<Graph>('read_graph', {});
+      return rankedSearch(graph, params.query as string, params as SearchOptions) as T;
+    }
+    return this.client.callTool<T>(toolName, params);
+  }
+}
+
+/**
+ * Filter entities with the time limit of a vm script, which also stops a
+ * regular expression that is backtracking
+ */
+function filterWithinTimeout<E extends Entity>(entities: E[], predicate: EntityPredicate): E[] {
+  filterContext.filter = () => entities.filter(predicate);
+  try {
+    return FILTER_SCRIPT.runInContext(filterContext, { timeout: QUERY_TIMEOUT_MS }) as E[];
+  } catch (error) {
+    if ((error as { code?: unknown }).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      throw new ValidationError(
+        `Query took longer than ${QUERY_TIMEOUT_MS}ms; check its patterns for nested quantifiers such as /(a+)+/`
+      );
+    }
+    throw error;
+  } finally {
+    filterContext.filter = undefined;
+  }
+}
+
+/**
+ * Values of a field on an entity; attributes are cached per entity
+ */
+function fieldReader(): (entity: Entity, field: string) => string[] {
+  const attributes = new WeakMap<Entity, Map<string, string>>();
+  return (entity, field) => {
+    switch (field) {
+      case 'name':
+        return [entity.name];
+      case 'entityType':
+        return [entity.entityType];
+      case 'observation':
+        return entity.observations;
+    }
+    let parsed = attributes.get(entity);
+    if (!parsed) {
+      parsed = new Map();
+      for (const observation of entity.observations) {
+        const attribute = parseAttribute(observation);
+        if (attribute) parsed.set(attribute.key, attribute.value);
+      }
+      attributes.set(entity, parsed);
+    }
+    const value = parsed.get(field);
+    return value === undefined ? [] : [value];
+  };
+}
+
+function compareValues(a: string, b: string): number {
+  if (NUMBER.test(a) && NUMBER.test(b)) return Number(a) - Number(b);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Comparator for `sort`; entities without the field come last either way
+ */
+function compareBy(sort: string[]): (a: Entity, b: Entity) => number {
+  const read = fieldReader();
+  const keys = sort.map(key => (key.startsWith('-') ? { field: key.slice(1), direction: -1 } : { field: key, direction: 1 }));
+  return (a, b) => {
+    for (const { field, direction } of keys) {
+      const [x] = read(a, field);
+      const [y] = read(b, field);
+      if (x === undefined || y === undefined) {
+        if (x !== y) return x === undefined ? 1 : -1;
+        continue;
+      }
+      const order = compareValues(x, y) * direction;
+      if (order !== 0) return order;
+    }
+    return 0;
+  };
+}
+
+/**
+ * Recursive-descent parser that builds the predicate while it reads
+ */
+class QueryParser {
+  private position = 0;
+  private readonly read = fieldReader();
+
+  constructor(private readonly text: string) {}
+
+  parse(): EntityPredicate {
+    this.skipSpace();
+    if (this.atEnd()) return () => true;
+    const predicate = this.parseOr();
+    this.skipSpace();
+    if (!this.atEnd()) throw this.error(`unexpected ${this.describeNext()}`);
+    return predicate;
+  }
+
+  private parseOr(): EntityPredicate {
+    const operands = [this.parseAnd()];
+    while (this.keyword('OR')) operands.push(this.parseAnd());
+    return operands.length === 1 ? operands[0] : entity => operands.some(operand => operand(entity));
+  }
+
+  private parseAnd(): EntityPredicate {
+    const operands = [this.parseNot()];
+    while (this.keyword('AND')) operands.push(this.parseNot());
+    return operands.length === 1 ? operands[0] : entity => operands.every(operand => operand(entity));
+  }
+
+  private parseNot(): EntityPredicate {
+    if (this.keyword('NOT')) {
+      const operand = this.parseNot();
+      return entity => !operand(entity);
+    }
+    if (this.punctuation('(')) {
+      const inner = this.parseOr();
+      this.expect(')');
+      return inner;
+    }
+    return this.parseCondition();
+  }
+
+  private parseCondition(): EntityPredicate {
+    const field = this.value('a field name');
+    const values = (entity: Entity) => this.read(entity, field);
+
+    if (this.keyword('EXISTS')) {
+      return entity => values(entity).length > 0;
+    }
+    if (this.keyword('IN')) {
+      this.expect('(');
+      const list = new Set([this.value('a value')]);
+      while (this.punctuation(',')) list.add(this.value('a value'));
+      this.expect(')');
+      return entity => values(entity).some(value => list.has(value));
+    }
+
+    this.skipSpace();
+    const operator = /!=|!~|<=|>=|=|~|<|>/y;
+    operator.lastIndex = this.position;
+    const match = operator.exec(this.text);
+    if (!match) throw this.error(`expected an operator after "${field}", found ${this.describeNext()}`);
+    this.position = operator.lastIndex;
+
+    switch (match[0]) {
+      case '=':
+      case '!=': {
+        const expected = this.value('a value');
+        const predicate = (entity: Entity) => values(entity).includes(expected);
+        return match[0] === '=' ? predicate : entity => !predicate(entity);
+      }
+      case '~':
+      case '!~': {
+        const pattern = this.pattern();
+        const predicate = (entity: Entity) => values(entity).some(value => pattern.test(value));
+        return match[0] === '~' ? predicate : entity => !predicate(entity);
+      }
+      default: {
+        const bound = this.value('a value');
+        const test: (order: number) => boolean = {
+          '<': (order: number) => order < 0,
+          '<=': (order: number) => order <= 0,
+          '>': (order: number) => order > 0,
+          '>=': (order: number) => order >= 0,
+        }[match[0] as '<' | '<=' | '>' | '>='];
+        return entity => values(entity).some(value => test(compareValues(value, bound)));
+      }
+    }
+  }
+
+  /**
+   * A quoted string or a bare word
+   */
+  private value(expected: string): string {
+    this.skipSpace();
+    const quote = this.text[this.position];
+    if (quote === '"' || quote === "'") {
+      const start = this.position;
+      let result = '';
+      for (this.position++; this.position < this.text.length; this.position++) {
+        const char = this.text[this.position];
+        if (char === quote) {
+          this.position++;
+          return result;
+        }
+        if (char === '\\' && this.position + 1 < this.text.length) this.position++;
+        result += this.text[this.position];
+      }
+      throw new QuerySyntaxError('unterminated string', start);
+    }
+    const word = /[^\s()=!<>~,"']+/y;
+    word.lastIndex = this.position;
+    const match = word.exec(this.text);
+    if (!match) throw this.error(`expected ${expected}, found ${this.describeNext()}`);
+    this.position = word.lastIndex;
+    return match[0];
+  }
+
+  /**
+   * A `/pattern/flags` literal, or any value used as a pattern
+   */
+  private pattern(): RegExp {
+    this.skipSpace();
+    const start = this.position;
+    let source: string;
+    let flags = '';
+    if (this.text[this.position] === '/') {
+      let inClass = false;
+      let end = this.position + 1;
+      for (; end < this.text.length; end++) {
+        const char = this.text[end];
+        if (char === '\\') end++;
+        else if (char === '[') inClass = true;
+        else if (char === ']') inClass = false;
+        else if (char === '/' && !inClass) break;
+      }
+      if (end >= this.text.length) throw new QuerySyntaxError('unterminated regular expression', start);
+      source = this.text.slice(this.position + 1, end);
+      flags = /[a-z]*/y.exec(this.text.slice(end + 1))?.[0] ?? '';
+      this.position = end + 1 + flags.length;
+    } else {
+      source = this.value('a pattern');
+    }
+    try {
+      // g and y would make test() stateful across entities
+      return new RegExp(source, flags.replace(/[gy]/g, ''));
+    } catch (error) {
+      throw new QuerySyntaxError((error as Error).message, start);
+    }
+  }
+
+  private keyword(word: string): boolean {
+    this.skipSpace();
+    const pattern = new RegExp(`${word}(?![^\\s()=!<>~,"'])`, 'iy');
+    pattern.lastIndex = this.position;
+    if (!pattern.test(this.text)) return false;
+    this.position = pattern.lastIndex;
+    return true;
+  }
+
+  private punctuation(char: string): boolean {
+    this.skipSpace();
+    if (this.text[this.position] !== char) return false;
+    this.position++;
+    return true;
+  }
+
+  private expect(char: string): void {
+    if (!this.punctuation(char)) throw this.error(`expected "${char}", found ${this.describeNext()}`);
+  }
+
+  private skipSpace(): void {
+    while (/\s/.test(this.text[this.position] ?? '')) this.position++;
+  }
+
+  private atEnd(): boolean {
+    return this.position >= this.text.length;
+  }
+
+  private describeNext(): string {
+    return this.atEnd() ? 'end of query' : `"${this.text.slice(this.position).split(/\s/)[0]}"`;
+  }
+
+  private error(message: string): QuerySyntaxError {
+    return new QuerySyntaxError(message, this.position);
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Input schemas
+ *
+ * Runtime checks for the arguments of the memory wrappers, one schema per
+ * interface in types.ts. Agent code is not type-checked unless it asks to
+ * be, so a wrapper may receive anything; it checks its arguments against
+ * these schemas before any call reaches the memory server.
+ *
+ * Each object schema is declared against its interface and must list
+ * every field of it, so a field added to types.ts does not compile until
+ * it is added here too.
+ *
+ * A failed check throws a ValidationError naming the offending value,
+ * e.g. `"entities[2].observations" must be an array of strings`, or the
+ * unknown key of an options object.
+ */
+
+import { ValidationError } from './errors.js';
+import type {
+  AddObservationInput,
+  AttributeValue,
+  CreateEntityInput,
+  CreateRelationInput,
+  DeleteObservationInput,
+  GetAttributesOptions,
+  NeighborOptions,
+  QueryOptions,
+  SearchOptions,
+  TraversalOptions,
+} from './types.js';
+
+export interface Schema<T> {
+  /** What the value must be, e.g. `an array of strings` */
+  readonly description: string;
+  /** Whether an object field may be left out */
+  readonly optional?: boolean;
+  /**
+   * @param path - Name of the value in error messages, e.g. `entities[0].name`
+   * @returns The value, typed
+   * @throws ValidationError if the value does not match
+   */
+  parse(value: unknown, path: string): T;
+}
+
+type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/** A schema for every field of T; optional fields need optional() */
+type Fields<T> = {
+  [K in keyof T]-?: {} extends Pick<T, K> ? Schema<T[K] | undefined> & { optional: true } : Schema<T[K]>;
+};
+
+function schema<T>(description: string, accepts: (value: unknown) => boolean): Schema<T> {
+  return {
+    description,
+    parse(value, path) {
+      if (!accepts(value)) throw new ValidationError(`"${path}" must be ${description}`);
+      return value as T;
+    },
+  };
+}
+
+export const string = schema<string>('a string', value => typeof value === 'string');
+
+export const number = schema<number>('a number', value => typeof value === 'number');
+
+export const boolean = schema<boolean>('a boolean', value => typeof value === 'boolean');
+
+export const nonNegativeInteger = schema<number>(
+  'a non-negative integer',
+  value => Number.isInteger(value) && (value as number) >= 0
+);
+
+/**
+ * One of a few literal values, e.g. `oneOf('out', 'in', 'both')`
+ */
+export function oneOf<const V extends readonly (string | number)[]>(...values: V): Schema<V[number]> {
+  const listed = values.map(value => JSON.stringify(value));
+  const description = listed.length > 1 ? `${listed.slice(0, -1).join(', ')} or ${listed.at(-1)}` : listed.join('');
+  return schema(description, value => values.includes(value as V[number]));
+}
+
+/**
+ * A value matching any of the schemas, tried in order
+ */
+export function union<S extends Schema<unknown>[]>(...schemas: S): Schema<Infer<S[number]>> {
+  const descriptions = schemas.map(s => s.description);
+  const description = `${descriptions.slice(0, -1).join(', ')} or ${descriptions.at(-1)}`;
+  return {
+    description,
+    parse(value, path) {
+      for (const s of schemas) {
+        try {
+          return s.parse(value, path) as Infer<S[number]>;
+        } catch {
+          // Try the next one
+        }
+      }
+      throw new ValidationError(`"${path}" must be ${description}`);
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  const description = `an array of ${item.description.replace(/^an? /, '')}s`;
+  return {
+    description,
+    parse(value, path) {
+      if (!Array.isArray(value)) throw new ValidationError(`"${path}" must be ${description}`);
+      value.forEach((element, i) => item.parse(element, `${path}[${i}]`));
+      return value as T[];
+    },
+  };
+}
+
+/**
+ * A field that may be left out
+ */
+export function optional<T>(inner: Schema<T>): Schema<T | undefined> & { optional: true } {
+  return {
+    description: inner.description,
+    optional: true,
+    parse: (value, path) => (value === undefined ? undefined : inner.parse(value, path)),
+  };
+}
+
+/**
+ * An object with the fields of T; other properties are allowed, so an
+ * entity from readGraph() can be passed where an input is expected
+ */
+export function object<T>(fields: Fields<T>): Schema<T> {
+  return record('an object', fields, (path, key) => `${path}.${key}`);
+}
+
+/**
+ * An options object, e.g. `{ limit: 10 }`. Fields are named on their own
+ * in error messages (`"limit" must be ...`), as they are in the docs.
+ * Unknown keys are rejected, so a typo such as `{ limt: 5 }` is not
+ * silently ignored.
+ */
+export function options<T>(fields: Fields<T>): Schema<T> {
+  return record('an options object', fields, (_path, key) => key, true);
+}
+
+function record<T>(
+  description: string,
+  fields: Fields<T>,
+  name: (path: string, key: string) => string,
+  closed = false
+): Schema<T> {
+  const entries = Object.entries(fields) as Array<[string, Schema<unknown>]>;
+  return {
+    description,
+    parse(value, path) {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        throw new ValidationError(`"${path}" must be ${description}`);
+      }
+      for (const [key, field] of entries) {
+        const item = (value as Record<string, unknown>)[key];
+        if (item === undefined && !field.optional) {
+          throw new ValidationError(`"${name(path, key)}" is required`);
+        }
+        field.parse(item, name(path, key));
+      }
+      if (closed) {
+        const unknown = Object.keys(value).find(key => !Object.hasOwn(fields, key));
+        if (unknown !== undefined) {
+          const known = entries.map(([key]) => key).join(', ');
+          throw new ValidationError(`Unknown option "${unknown}"; expected one of: ${known}`);
+        }
+      }
+      return value as T;
+    },
+  };
+}
+
+const relationType = union(string, array(string));
+
+const traversal: Fields<TraversalOptions> = {
+  relationType: optional(relationType),
+  direction: optional(oneOf('out', 'in', 'both')),
+};
+
+/**
+ * Schemas for the wrapper arguments, by the name of their type in types.ts
+ */
+export const schemas = {
+  CreateEntityInput: object<CreateEntityInput>({
+    name: string,
+    entityType: string,
+    observations: array(string),
+  }),
+  CreateRelationInput: object<CreateRelationInput>({
+    from: string,
+    to: string,
+    relationType: string,
+  }),
+  AddObservationInput: object<AddObservationInput>({
+    entityName: string,
+    contents: array(string),
+  }),
+  DeleteObservationInput: object<DeleteObservationInput>({
+    entityName: string,
+    observations: array(string),
+  }),
+  AttributeValue: union(string, number, boolean) satisfies Schema<AttributeValue>,
+  SearchOptions: options<SearchOptions>({
+    ranked: optional(boolean),
+    limit: optional(nonNegativeInteger),
+    prefix: optional(boolean),
+    fuzzy: optional(oneOf(0, 1, 2)),
+  }),
+  GetAttributesOptions: options<GetAttributesOptions>({
+    coerce: optional(boolean),
+  }),
+  QueryOptions: options<QueryOptions>({
+    sort: optional(array(string)),
+    limit: optional(nonNegativeInteger),
+    offset: optional(nonNegativeInteger),
+  }),
+  TraversalOptions: options<TraversalOptions>(traversal),
+  NeighborOptions: options<NeighborOptions>({
+    ...traversal,
+    depth: optional(nonNegativeInteger),
+  }),
+  ComponentOptions: options<Pick<TraversalOptions, 'relationType'>>({
+    relationType: traversal.relationType,
+  }),
+};
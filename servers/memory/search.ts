@@ -0,0 +1,160 @@
+/**
+ * Ranked full-text search
+ *
+ * BM25 over entity names, types and observations, computed locally from
+ * the graph. A word in the name counts three times and a word in the type
+ * twice, so `Team Alpha` ranks above an entity that only mentions alpha in
+ * an observation. Prefix and fuzzy matching are opt-in, and a word matched
+ * that way scores less than an exact one.
+ *
+ *   searchNodes('procesed recrd', { ranked: true, fuzzy: 1, limit: 5 })
+ */
+
+import { ValidationError } from './errors.js';
+import type { EntityWithType, Graph, SearchMatch, SearchOptions, SearchResult } from './types.js';
+
+/** BM25 term frequency saturation */
+const K1 = 1.2;
+/** BM25 document length normalization */
+const B = 0.75;
+const NAME_WEIGHT = 3;
+const TYPE_WEIGHT = 2;
+/** Share of the score kept by a prefix or fuzzy match */
+const PREFIX_WEIGHT = 0.7;
+const FUZZY_WEIGHT = 0.5;
+const MAX_SNIPPETS = 3;
+const SNIPPET_CHARS = 120;
+
+/**
+ * Lower-cased words of a text: runs of letters and digits
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Score every entity against the query and return the best `limit`
+ *
+ * Relations are those with either end among the returned entities, as
+ * the memory server returns them.
+ *
+ * @throws Error on invalid options
+ */
+export function rankedSearch(graph: Graph, query: string, options: SearchOptions = {}): SearchResult {
+  const { limit = 10, prefix = false, fuzzy = 0 } = options;
+  if (typeof query !== 'string') throw new ValidationError('"query" must be a string');
+  if (!Number.isInteger(limit) || limit < 0) throw new ValidationError('"limit" must be a non-negative integer');
+  if (!Number.isInteger(fuzzy) || fuzzy < 0 || fuzzy > 2) throw new ValidationError('"fuzzy" must be 0, 1 or 2');
+
+  const documents = graph.entities.map(entity => {
+    const fields: Array<[string, number]> = [
+      [entity.name, NAME_WEIGHT],
+      [entity.entityType, TYPE_WEIGHT],
+      ...entity.observations.map((o): [string, number] => [o, 1]),
+    ];
+    const frequencies = new Map<string, number>();
+    let length = 0;
+    for (const [text, weight] of fields) {
+      for (const token of tokenize(text)) {
+        frequencies.set(token, (frequencies.get(token) ?? 0) + weight);
+        length += weight;
+      }
+    }
+    return { entity, fields, frequencies, length };
+  });
+
+  const documentFrequency = new Map<string, number>();
+  for (const { frequencies } of documents) {
+    for (const term of frequencies.keys()) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }
+  const count = documents.length;
+  const averageLength = documents.reduce((sum, d) => sum + d.length, 0) / count || 1;
+  const idf = (term: string) => {
+    const n = documentFrequency.get(term) ?? 0;
+    return Math.log(1 + (count - n + 0.5) / (n + 0.5));
+  };
+
+  // Indexed words each query word may stand for, with the share of the score they keep
+  const expansions = Array.from(new Set(tokenize(query)), word => {
+    const terms = new Map<string, number>();
+    for (const term of documentFrequency.keys()) {
+      if (term === word) terms.set(term, 1);
+      else if (prefix && term.startsWith(word)) terms.set(term, PREFIX_WEIGHT);
+      else if (fuzzy > 0 && word.length > fuzzy * 2 && withinDistance(word, term, fuzzy)) terms.set(term, FUZZY_WEIGHT);
+    }
+    return terms;
+  });
+
+  const scored: Array<{ entity: EntityWithType; match: SearchMatch; fields: Array<[string, number]> }> = [];
+  for (const { entity, fields, frequencies, length } of documents) {
+    let score = 0;
+    const matched: string[] = [];
+    for (const terms of expansions) {
+      let best = 0;
+      let bestTerm: string | undefined;
+      for (const [term, weight] of terms) {
+        const tf = frequencies.get(term);
+        if (!tf) continue;
+        const termScore = weight * idf(term) * ((tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * length) / averageLength)));
+        if (termScore > best) {
+          best = termScore;
+          bestTerm = term;
+        }
+      }
+      score += best;
+      if (bestTerm !== undefined && !matched.includes(bestTerm)) matched.push(bestTerm);
+    }
+    if (score > 0) {
+      const match = { name: entity.name, score: Math.round(score * 1000) / 1000, terms: matched, snippets: [] };
+      scored.push({ entity, fields, match });
+    }
+  }
+
+  scored.sort((a, b) => b.match.score - a.match.score || (a.entity.name < b.entity.name ? -1 : 1));
+  const top = scored.slice(0, limit);
+  for (const { fields, match } of top) {
+    match.snippets = fields
+      .map(([text]) => text)
+      .filter(text => tokenize(text).some(token => match.terms.includes(token)))
+      .slice(0, MAX_SNIPPETS)
+      .map(text => snippet(text, match.terms));
+  }
+
+  const names = new Set(top.map(({ entity }) => entity.name));
+  return {
+    entities: top.map(({ entity }) => entity),
+    relations: graph.relations.filter(r => names.has(r.from) || names.has(r.to)),
+    matches: top.map(({ match }) => match),
+  };
+}
+
+/**
+ * Cut long text to a window around the first matched word
+ */
+function snippet(text: string, terms: string[]): string {
+  if (text.length <= SNIPPET_CHARS) return text;
+  const lower = text.toLowerCase();
+  const at = Math.min(...terms.map(term => lower.indexOf(term)).filter(index => index >= 0));
+  const start = Math.max(0, Math.min(at - SNIPPET_CHARS / 3, text.length - SNIPPET_CHARS));
+  const end = start + SNIPPET_CHARS;
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Whether the Levenshtein distance between two words is at most `max`
+ */
+function withinDistance(a: string, b: string, max: number): boolean {
+  if (Math.abs(a.length - b.length) > max) return false;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return false;
+    previous = current;
+  }
+  return previous[b.length] <= max;
+}
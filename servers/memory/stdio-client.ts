@@ -0,0 +1,194 @@
+/**
+ * Stdio MCP client for real upstream servers
+ *
+ * Launches an upstream MCP server (e.g. @modelcontextprotocol/server-memory)
+ * as a child process, performs the initialize handshake, and forwards
+ * wrapper calls to it as `tools/call` requests.
+ *
+ * If the child process exits, the next call transparently starts a new
+ * one. Calls that were in flight when the process died are not retried,
+ * since a mutating call may already have been applied.
+ *
+ * Usage:
+ *
+ *   const client = new StdioMCPClient({
+ *     command: 'npx',
+ *     args: ['-y', '@modelcontextprotocol/server-memory'],
+ *     env: { MEMORY_FILE_PATH: '/path/to/memory.jsonl' },
+ *   });
+ *   setMCPClient(client);
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { MCPClientInterface } from './client.js';
+import { TransportError, ValidationError } from './errors.js';
+
+export interface StdioMCPClientOptions {
+  /** Executable that starts the upstream server */
+  command: string;
+  /** Arguments passed to the executable */
+  args?: string[];
+  /** Extra environment variables, merged over the safe default environment */
+  env?: Record<string, string>;
+  /** Working directory for the child process */
+  cwd?: string;
+  /** Name reported to the server during initialization */
+  clientName?: string;
+}
+
+/**
+ * A tool as advertised by the upstream server's tools/list
+ */
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+}
+
+interface Connection {
+  client: Client;
+  transport: StdioClientTransport;
+  closed: boolean;
+}
+
+/**
+ * MCP client that talks to an upstream server over stdio
+ */
+export class StdioMCPClient implements MCPClientInterface {
+  private connection: Connection | null = null;
+  private connecting: Promise<Connection> | null = null;
+
+  constructor(private readonly options: StdioMCPClientOptions) {}
+
+  /**
+   * Start the server process and complete the initialize handshake.
+   * Called automatically by callTool(); safe to call more than once.
+   */
+  async connect(): Promise<void> {
+    await this.getConnection();
+  }
+
+  /**
+   * Whether a live server process is currently attached
+   */
+  get connected(): boolean {
+    return this.connection !== null && !this.connection.closed;
+  }
+
+  /**
+   * Process id of the running server, or null when disconnected
+   */
+  get pid(): number | null {
+    return this.connected ? this.connection!.transport.pid : null;
+  }
+
+  /**
+   * @throws TransportError if the server cannot be started or the request
+   *   fails in transit; ValidationError if the server rejects the arguments
+   *   against the tool's input schema; an Error with the server's message if
+   *   the tool itself fails
+   */
+  async callTool<T>(toolName: string, params: Record<string, unknown>): Promise<T> {
+    let connection: Connection;
+    try {
+      connection = await this.getConnection();
+    } catch (error) {
+      throw new TransportError(`Could not start ${this.options.command}: ${describe(error)}`, { cause: error });
+    }
+    let result: Awaited<ReturnType<Client['callTool']>>;
+    try {
+      result = await connection.client.callTool({ name: toolName, arguments: params });
+    } catch (error) {
+      if (error instanceof McpError && error.code === ErrorCode.InvalidParams) {
+        throw new ValidationError(error.message);
+      }
+      throw new TransportError(`Tool ${toolName} failed in transit: ${describe(error)}`, { cause: error });
+    }
+
+    const text = Array.isArray(result.content)
+      ? result.content
+          .filter((c): c is { type: 'text'; text: string } => c.type === 'text')
+          .map(c => c.text)
+          .join('\n')
+      : '';
+
+    if (result.isError) {
+      throw new Error(text || `Tool ${toolName} failed`);
+    }
+    if (result.structuredContent !== undefined) {
+      return result.structuredContent as T;
+    }
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      return text as T;
+    }
+  }
+
+  /**
+   * List the tools the server offers, following pagination
+   */
+  async listTools(): Promise<ToolDefinition[]> {
+    const { client } = await this.getConnection();
+    const tools: ToolDefinition[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listTools(cursor ? { cursor } : undefined);
+      tools.push(...page.tools);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  /**
+   * Shut down the server process
+   */
+  async close(): Promise<void> {
+    const connection = this.connection;
+    this.connection = null;
+    if (connection && !connection.closed) {
+      await connection.client.close();
+    }
+  }
+
+  private async getConnection(): Promise<Connection> {
+    if (this.connection && !this.connection.closed) {
+      return this.connection;
+    }
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async open(): Promise<Connection> {
+    const { command, args = [], env = {}, cwd, clientName = 'code-mode' } = this.options;
+
+    const transport = new StdioClientTransport({
+      command,
+      args,
+      env: { ...getDefaultEnvironment(), ...env },
+      cwd,
+      stderr: 'inherit',
+    });
+    const client = new Client({ name: clientName, version: '1.0.0' });
+    const connection: Connection = { client, transport, closed: false };
+
+    client.onclose = () => {
+      connection.closed = true;
+    };
+
+    await client.connect(transport);
+    this.connection = connection;
+    return connection;
+  }
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,168 @@
+/**
+ * PII tokenizing MCP client
+ *
+ * Sits between the wrappers and a real client so that agent code never
+ * sees sensitive values. Strings in tool results are scanned for emails,
+ * phone numbers and any user-defined patterns, and each match is replaced
+ * with a stable token such as `[EMAIL_1]`. The same value always maps to
+ * the same token, so agent code can still compare and group records.
+ *
+ * Tokens in tool arguments are swapped back to the real values before the
+ * call reaches the server, so `addObservations` and other mutating calls
+ * store real data. Real data flows between services; the model only sees
+ * tokens.
+ *
+ * Usage:
+ *
+ *   const tokenizer = new PiiTokenizer([...DEFAULT_PII_PATTERNS, { type: 'SSN', pattern: /\d{3}-\d{2}-\d{4}/ }]);
+ *   setMCPClient(new TokenizingMCPClient(new JsonlMCPClient(path), tokenizer));
+ */
+
+import type { MCPClientInterface } from './client.js';
+
+export interface PiiPattern {
+  /** Label used in tokens, e.g. `EMAIL` for `[EMAIL_1]` */
+  type: string;
+  pattern: RegExp;
+}
+
+export const DEFAULT_PII_PATTERNS: PiiPattern[] = [
+  { type: 'EMAIL', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/ },
+  { type: 'PHONE', pattern: /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)|\d{3})[\s.-]?\d{3}[\s.-]?\d{4}(?!\w)/ },
+];
+
+const TOKEN_PATTERN = /\[[A-Z][A-Z0-9_]*_\d+\]/g;
+
+/**
+ * Parse custom patterns given as JSON text, an object of type → regex
+ * source, e.g. `{"SSN": "\\d{3}-\\d{2}-\\d{4}"}`
+ *
+ * @throws On invalid JSON, a value that is not a string or a pattern that
+ *   does not compile, naming the pattern's type
+ */
+export function parsePiiPatterns(json: string): PiiPattern[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Patterns are not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Patterns must be a JSON object of type → regex, e.g. {"SSN": "\\d{3}-\\d{2}-\\d{4}"}');
+  }
+  return Object.entries(value).map(([type, source]) => {
+    if (typeof source !== 'string') {
+      throw new Error(`Pattern for ${type} must be a string, got ${JSON.stringify(source)}`);
+    }
+    try {
+      return { type, pattern: new RegExp(source) };
+    } catch (error) {
+      throw new Error(`Pattern for ${type} does not compile: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+/**
+ * Two-way mapping between sensitive values and their tokens
+ */
+export class PiiTokenizer {
+  private readonly patterns: PiiPattern[];
+  private readonly tokensByValue = new Map<string, string>();
+  private readonly valuesByToken = new Map<string, string>();
+  private readonly counters = new Map<string, number>();
+
+  constructor(patterns: PiiPattern[] = DEFAULT_PII_PATTERNS) {
+    this.patterns = patterns.map(({ type, pattern }) => {
+      if (!/^[A-Z][A-Z0-9_]*$/.test(type)) {
+        throw new Error(`Invalid PII type "${type}": use uppercase letters, digits and "_"`);
+      }
+      const flags = pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g';
+      return { type, pattern: new RegExp(pattern.source, flags) };
+    });
+  }
+
+  /**
+   * Number of distinct values tokenized so far
+   */
+  get size(): number {
+    return this.valuesByToken.size;
+  }
+
+  /**
+   * Replace every sensitive value in a string with its token
+   */
+  tokenizeText(text: string): string {
+    let result = text;
+    for (const { type, pattern } of this.patterns) {
+      result = result.replace(pattern, match =>
+        this.valuesByToken.has(match) ? match : this.tokenFor(type, match)
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Replace every known token in a string with its real value
+   */
+  detokenizeText(text: string): string {
+    return text.replace(TOKEN_PATTERN, token => this.valuesByToken.get(token) ?? token);
+  }
+
+  /**
+   * Tokenize every string in a JSON-like value
+   */
+  tokenize<T>(value: T): T {
+    return mapStrings(value, text => this.tokenizeText(text)) as T;
+  }
+
+  /**
+   * Detokenize every string in a JSON-like value
+   */
+  detokenize<T>(value: T): T {
+    return mapStrings(value, text => this.detokenizeText(text)) as T;
+  }
+
+  private tokenFor(type: string, value: string): string {
+    let token = this.tokensByValue.get(value);
+    if (!token) {
+      const count = (this.counters.get(type) ?? 0) + 1;
+      this.counters.set(type, count);
+      token = `[${type}_${count}]`;
+      this.tokensByValue.set(value, token);
+      this.valuesByToken.set(token, value);
+    }
+    return token;
+  }
+}
+
+/**
+ * Client wrapper that tokenizes results and detokenizes arguments
+ */
+export class TokenizingMCPClient implements MCPClientInterface {
+  constructor(
+    private readonly client: MCPClientInterface,
+    readonly tokenizer: PiiTokenizer = new PiiTokenizer()
+  ) {}
+
+  async callTool<T>(toolName: string, params: Record<string, unknown>): Promise<T> {
+    let result: T;
+    try {
+      result = await this.client.callTool<T>(toolName, this.tokenizer.detokenize(params));
+    } catch (error) {
+      // Server errors often echo the arguments back; the error keeps its class and code
+      if (!(error instanceof Error)) throw new Error(this.tokenizer.tokenizeText(String(error)));
+      error.message = this.tokenizer.tokenizeText(error.message);
+      throw error;
+    }
+    return this.tokenizer.tokenize(result);
+  }
+}
+
+function mapStrings(value: unknown, map: (text: string) => string): unknown {
+  if (typeof value === 'string') return map(value);
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, map));
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]));
+  }
+  return value;
+}
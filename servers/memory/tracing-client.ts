@@ -0,0 +1,159 @@
+/**
+ * Tool call tracing
+ *
+ * Records every tool call agent code makes through a client: which tool,
+ * with which parameters, how large the result was, how long it took and
+ * whether it failed. executeCode() puts one TracingMCPClient in front of
+ * each namespace for the duration of a run and returns the trace as
+ * `calls`.
+ *
+ * Parameters are recorded redacted and within a budget: when their JSON
+ * would exceed it, long strings are cut, arrays and objects keep their
+ * first entries and deep nesting is elided, as in console output.
+ */
+
+import type { MCPClientInterface } from './client.js';
+
+export interface ToolCallTrace {
+  /** Namespace the tool was called through, e.g. `memory` */
+  namespace: string;
+  /** MCP tool name, e.g. `add_observations` */
+  tool: string;
+  /** Parameters as sent, redacted and cut down to the trace budget */
+  params: Record<string, unknown>;
+  /** Length of the JSON-encoded result (absent when the call failed) */
+  resultSize?: number;
+  /** Milliseconds from the call to its result or error */
+  latencyMs: number;
+  error?: string;
+}
+
+export interface TraceOptions {
+  /** Applied to every string in recorded parameters and errors, e.g. to tokenize PII */
+  redact?: (text: string) => string;
+  /** Characters of JSON kept per call's parameters (default: 2000) */
+  maxParamChars?: number;
+}
+
+const DEFAULT_MAX_PARAM_CHARS = 2000;
+
+/**
+ * Summary levels tried in order until parameters fit: entries kept per
+ * array or object, characters kept per string, and the depth below which
+ * values are elided
+ */
+const SUMMARY_LEVELS = [
+  { items: 20, chars: 500, depth: 6 },
+  { items: 10, chars: 100, depth: 4 },
+  { items: 3, chars: 40, depth: 2 },
+  { items: 1, chars: 10, depth: 1 },
+];
+
+/**
+ * Client that reports each call to `onCall` once it settles
+ */
+export class TracingMCPClient implements MCPClientInterface {
+  constructor(
+    private readonly client: MCPClientInterface,
+    private readonly namespace: string,
+    private readonly onCall: (call: ToolCallTrace) => void,
+    private readonly options: TraceOptions = {}
+  ) {}
+
+  async callTool<T>(toolName: string, params: Record<string, unknown>): Promise<T> {
+    const { redact = (text: string) => text, maxParamChars = DEFAULT_MAX_PARAM_CHARS } = this.options;
+    const trace = { namespace: this.namespace, tool: toolName, params: traceParams(params, redact, maxParamChars) };
+    const startTime = performance.now();
+    const latency = () => Math.round((performance.now() - startTime) * 100) / 100;
+    try {
+      const result = await this.client.callTool<T>(toolName, params);
+      this.onCall({ ...trace, resultSize: JSON.stringify(result)?.length ?? 0, latencyMs: latency() });
+      return result;
+    } catch (error) {
+      this.onCall({ ...trace, latencyMs: latency(), error: redact(error instanceof Error ? error.message : String(error)) });
+      throw error;
+    }
+  }
+}
+
+/**
+ * Copy parameters into plain JSON data with every string redacted,
+ * summarized until the JSON fits `maxChars`
+ */
+function traceParams(
+  params: Record<string, unknown>,
+  redact: (text: string) => string,
+  maxChars: number
+): Record<string, unknown> {
+  let summary = toTraced(params, redact, Infinity, Infinity, Infinity);
+  for (const level of SUMMARY_LEVELS) {
+    if (JSON.stringify(summary).length <= maxChars) break;
+    summary = toTraced(params, redact, level.items, level.chars, level.depth);
+  }
+  return summary as Record<string, unknown>;
+}
+
+/**
+ * Redact a value, keeping at most `items` entries per array or object,
+ * `chars` characters per string and `depth` levels of nesting. Strings are
+ * redacted before they are cut, so a cut never splits a value the redaction
+ * would have replaced.
+ */
+function toTraced(value: unknown, redact: (text: string) => string, items: number, chars: number, depth: number): unknown {
+  if (typeof value === 'string') {
+    const text = redact(value);
+    return text.length > chars ? `${text.slice(0, chars)}…` : text;
+  }
+  if (value === null || typeof value !== 'object') return value;
+
+  const entries: Array<[string, unknown]> = Array.isArray(value)
+    ? value.map((item, i) => [String(i), item])
+    : Object.entries(value);
+  if (depth <= 0) {
+    return Array.isArray(value) ? `[Array(${entries.length})]` : `[Object with ${plural(entries.length, 'key')}]`;
+  }
+  const kept = entries.slice(0, items).map(([key, item]): [string, unknown] => [
+    Array.isArray(value) ? key : (toTraced(key, redact, items, chars, depth) as string),
+    toTraced(item, redact, items, chars, depth - 1),
+  ]);
+  const more = entries.length - kept.length;
+  if (Array.isArray(value)) {
+    const list = kept.map(([, item]) => item);
+    return more > 0 ? [...list, `…and ${more.toLocaleString('en-US')} more`] : list;
+  }
+  const object = Object.fromEntries(kept);
+  return more > 0 ? { ...object, '…': `and ${plural(more, 'more key')}` } : object;
+}
+
+function plural(n: number, noun: string): string {
+  return `${n.toLocaleString('en-US')} ${noun}${n === 1 ? '' : 's'}`;
+}
+
+/**
+ * Summarize a trace per tool, e.g.
+ * `memory.add_observations: 50 calls (2 failed), 41.2ms, 2,150 chars returned`
+ *
+ * Failed calls are listed individually after the totals.
+ */
+export function summarizeToolCalls(calls: ToolCallTrace[]): string[] {
+  const totals = new Map<string, { count: number; failed: number; latencyMs: number; resultSize: number }>();
+  for (const call of calls) {
+    const key = `${call.namespace}.${call.tool}`;
+    const total = totals.get(key) ?? { count: 0, failed: 0, latencyMs: 0, resultSize: 0 };
+    total.count++;
+    if (call.error !== undefined) total.failed++;
+    total.latencyMs += call.latencyMs;
+    total.resultSize += call.resultSize ?? 0;
+    totals.set(key, total);
+  }
+  const format = (n: number) => n.toLocaleString('en-US', { maximumFractionDigits: 1 });
+  return [
+    ...Array.from(
+      totals,
+      ([key, { count, failed, latencyMs, resultSize }]) =>
+        `${key}: ${count} call${count === 1 ? '' : 's'}${failed > 0 ? ` (${failed} failed)` : ''}, ` +
+        `${format(latencyMs)}ms, ${format(resultSize)} chars returned`
+    ),
+    ...calls.filter(call => call.error !== undefined).map(call => `failed ${call.namespace}.${call.tool}: ${call.error}`),
+  ];
+}
@@ -12,8 +12,12 @@ export interface Entity {
   observations: string[];
 }
 
+/**
+ * An entity as the memory server returns it. Current versions leave `type`
+ * out of results; it only marks lines in the JSONL file.
+ */
 export interface EntityWithType extends Entity {
-  type: 'entity';
+  type?: 'entity';
 }
 
 export interface Relation {
@@ -22,8 +26,11 @@ export interface Relation {
   relationType: string;
 }
 
+/**
+ * A relation as the memory server returns it, see EntityWithType
+ */
 export interface RelationWithType extends Relation {
-  type: 'relation';
+  type?: 'relation';
 }
 
 export interface Graph {
@@ -61,4 +68,97 @@ export interface DeleteObservationInput {
 export interface SearchResult {
   entities: EntityWithType[];
   relations: RelationWithType[];
+  /** Score and matched text per entity, in the same order (ranked search only) */
+  matches?: SearchMatch[];
+}
+
+export interface SearchMatch {
+  name: string;
+  /** BM25 relevance; only comparable within one search */
+  score: number;
+  /** Indexed words that matched the query, e.g. `["active"]` */
+  terms: string[];
+  /** Name, type or observations containing a matched word */
+  snippets: string[];
+}
+
+export interface SearchOptions {
+  /** Rank entities by relevance instead of substring matching */
+  ranked?: boolean;
+  /** Results to return when ranked (default: 10) */
+  limit?: number;
+  /** Let each query word match words it starts, e.g. `proc` → `processed` */
+  prefix?: boolean;
+  /** Typos allowed per query word, 0-2 (default: 0) */
+  fuzzy?: number;
+}
+
+/**
+ * Value of a `key: value` observation, e.g. `count: 3` or `status: active`
+ */
+export type AttributeValue = string | number | boolean;
+
+export type Attributes = Record<string, AttributeValue>;
+
+export interface GetAttributesOptions {
+  /** Return `"3"` as 3 and `"true"`/`"false"` as booleans (default: false) */
+  coerce?: boolean;
+}
+
+export interface QueryOptions {
+  /**
+   * Fields to sort by, e.g. `["category", "-count"]`; a leading `-` sorts
+   * descending. Fields are the same as in the query.
+   */
+  sort?: string[];
+  /** Entities to return (default: all) */
+  limit?: number;
+  /** Matching entities to skip (default: 0) */
+  offset?: number;
+}
+
+export interface QueryResult extends SearchResult {
+  /** Entities matching the query, across all pages */
+  total: number;
+}
+
+export interface TraversalOptions {
+  /** Only follow relations of these types (default: all) */
+  relationType?: string | string[];
+  /** Follow relations from the entity (`out`), to it (`in`) or both ways (default: `both`) */
+  direction?: 'out' | 'in' | 'both';
+}
+
+export interface NeighborOptions extends TraversalOptions {
+  /** Hops to follow (default: 1) */
+  depth?: number;
+}
+
+export interface Neighborhood extends SearchResult {
+  /** Hops from the start entity, by entity name */
+  distances: Record<string, number>;
+}
+
+export interface GraphPath {
+  /** Entities from start to end, in order */
+  entities: EntityWithType[];
+  /** The relation crossed at each hop, as stored (so `from` may be the later entity) */
+  relations: RelationWithType[];
 }
+
+/**
+ * `code` of the errors the wrappers throw, e.g. `error.code === 'NOT_FOUND'`
+ * - INVALID_INPUT: an argument does not match the wrapper's types
+ * - INVALID_QUERY: a queryNodes query cannot be parsed
+ * - NOT_FOUND: an entity the call depends on does not exist
+ * - CONFLICT: the graph is not in a state the call can work with
+ * - TRANSPORT_ERROR: the memory server could not be reached
+ * - POLICY_VIOLATION: the call breaks the policy of the execution
+ */
+export type MemoryErrorCode =
+  | 'INVALID_INPUT'
+  | 'INVALID_QUERY'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'TRANSPORT_ERROR'
+  | 'POLICY_VIOLATION';
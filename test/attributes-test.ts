@@ -0,0 +1,100 @@
+/**
+ * Test: Observation Attributes
+ *
+ * Reads and updates `key: value` observations through getAttributes,
+ * setAttribute and incrementAttribute, starting from the shipped sample
+ * data, and from agent code in the sandbox.
+ */
+
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+import { executeCode } from '../executor/index.js';
+import {
+  setMCPClient,
+  MockMCPClient,
+  MutationJournal,
+  loadGraphFile,
+  openNodes,
+  addObservations,
+  getAttributes,
+  setAttribute,
+  incrementAttribute,
+} from '../servers/memory/index.js';
+
+const sampleFile = fileURLToPath(new URL('../../code-mode-memory.jsonl', import.meta.url));
+
+async function observations(name: string): Promise<string[]> {
+  return (await openNodes([name])).entities[0].observations;
+}
+
+async function runTest() {
+  console.log('=== Observation Attributes Test ===\n');
+
+  const mockClient = new MockMCPClient();
+  mockClient.loadData(await loadGraphFile(sampleFile));
+  setMCPClient(mockClient);
+
+  // Test 1: Parsing, newest value wins
+  console.log('Test 1: Reading attributes...');
+  assert.deepEqual(await getAttributes('Record_007'), { count: '1', status: 'active', category: 'C' });
+  assert.deepEqual(await getAttributes('Record_007', { coerce: true }), { count: 1, status: 'active', category: 'C' });
+  await addObservations([
+    {
+      entityName: 'Record_001',
+      contents: ['free-form note', 'enabled: false', 'ratio:0.25', 'url: https://example.com/a', 'zip: 02134x'],
+    },
+  ]);
+  const coerced = await getAttributes('Record_001', { coerce: true });
+  assert.equal(coerced.enabled, false);
+  assert.equal(coerced.ratio, 0.25);
+  assert.equal(coerced.url, 'https://example.com/a');
+  assert.equal(coerced.zip, '02134x');
+  assert.equal('free-form note' in coerced, false);
+  await assert.rejects(getAttributes('Record_999'), /Entity not found: Record_999/);
+  console.log('✓ Record_007 count is 1, not 0\n');
+
+  // Test 2: Setting replaces every earlier value
+  console.log('Test 2: Setting attributes...');
+  await setAttribute('Record_007', 'count', 5);
+  assert.deepEqual(await observations('Record_007'), ['status: active', 'category: C', 'count: 5']);
+  await setAttribute('Record_007', 'status', 'active');
+  await setAttribute('Record_007', ' processed ', true);
+  assert.deepEqual(await observations('Record_007'), ['status: active', 'category: C', 'count: 5', 'processed: true']);
+  await assert.rejects(setAttribute('Record_007', 'a:b', 1), /Invalid attribute key: "a:b"/);
+  await assert.rejects(setAttribute('Record_007', 'count', NaN), /must be a finite number/);
+  await assert.rejects(setAttribute('Record_007', 'note', 'a\nb'), /Attribute "note" must be a single line, got "a\\nb"/);
+  console.log(`✓ ${(await observations('Record_007')).join(', ')}\n`);
+
+  // Test 3: Incrementing
+  console.log('Test 3: Incrementing attributes...');
+  assert.equal(await incrementAttribute('Record_007', 'count'), 6);
+  assert.equal(await incrementAttribute('Record_007', 'count', -2.5), 3.5);
+  assert.equal(await incrementAttribute('Record_003', 'retries'), 1);
+  assert.deepEqual(await getAttributes('Record_003', { coerce: true }), { count: 0, status: 'inactive', category: 'A', retries: 1 });
+  await assert.rejects(incrementAttribute('Record_007', 'status'), /Attribute "status" of Record_007 is not a number: "active"/);
+  console.log('✓ count: 5 → 6 → 3.5; missing retries starts at 0\n');
+
+  // Test 4: From agent code, journaled as one run
+  console.log('Test 4: Attributes in the sandbox...');
+  const journal = new MutationJournal();
+  const result = await executeCode(`
+    const { entities } = await memory.searchNodes('category: B');
+    for (const entity of entities) {
+      await memory.incrementAttribute(entity.name, 'count');
+      await memory.setAttribute(entity.name, 'status', 'reviewed');
+    }
+    return memory.getAttributes(entities[0].name, { coerce: true });
+  `, { journal });
+  assert.equal(result.status, 'success', result.error);
+  assert.deepEqual(result.returnValue, { count: 1, status: 'reviewed', category: 'B', timed_test: 'iteration_1' });
+  await journal.undo(result.executionId, mockClient);
+  assert.deepEqual(await getAttributes('Record_002'), { count: '0', status: 'active', category: 'B', timed_test: 'iteration_1' });
+  console.log(`✓ ${result.calls?.length} calls; undone in one step\n`);
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,89 @@
+/**
+ * Test: Memory Client Conformance
+ *
+ * Runs the shared suite in test/conformance.ts against every memory client:
+ * the mock, the JSONL client, a stdio server process and each decorator
+ * in front of the mock.
+ *
+ * The stand-in stdio server is backed by the mock, so it only checks the
+ * transport. Set CONFORMANCE_UPSTREAM=1 to also run the suite against
+ * @modelcontextprotocol/server-memory itself, started with npx (this needs
+ * the npm registry or a cached copy of the package).
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  MockMCPClient,
+  JsonlMCPClient,
+  StdioMCPClient,
+  TokenizingMCPClient,
+  OverlayMCPClient,
+  JournalingMCPClient,
+  MutationJournal,
+  PolicyMCPClient,
+  TracingMCPClient,
+  QueryingMCPClient,
+  type MCPClientInterface,
+} from '../servers/memory/index.js';
+import { runConformanceSuite, type ConformanceTarget } from './conformance.js';
+
+const standInServer = fileURLToPath(new URL('./fixtures/memory-server.js', import.meta.url));
+
+async function runTest() {
+  console.log('=== Memory Client Conformance Test ===\n');
+
+  const dir = await mkdtemp(path.join(tmpdir(), 'conformance-'));
+  let files = 0;
+  const decorated = (name: string, wrap: (client: MCPClientInterface) => MCPClientInterface): ConformanceTarget => ({
+    name,
+    create: async () => wrap(new MockMCPClient()),
+  });
+
+  const targets: ConformanceTarget[] = [
+    { name: 'MockMCPClient', create: async () => new MockMCPClient() },
+    { name: 'JsonlMCPClient', create: async () => new JsonlMCPClient(path.join(dir, `memory-${++files}.jsonl`)) },
+    {
+      name: 'StdioMCPClient',
+      create: async () => new StdioMCPClient({ command: process.execPath, args: [standInServer] }),
+      dispose: client => (client as StdioMCPClient).close(),
+    },
+    decorated('TokenizingMCPClient', client => new TokenizingMCPClient(client)),
+    decorated('OverlayMCPClient', client => new OverlayMCPClient(client)),
+    decorated('JournalingMCPClient', client => new JournalingMCPClient(client, new MutationJournal(), 'conformance')),
+    decorated('PolicyMCPClient', client => new PolicyMCPClient(client, {})),
+    decorated('TracingMCPClient', client => new TracingMCPClient(client, 'memory', () => {})),
+    decorated('QueryingMCPClient', client => new QueryingMCPClient(client)),
+  ];
+  if (process.env.CONFORMANCE_UPSTREAM === '1') {
+    targets.push({
+      name: '@modelcontextprotocol/server-memory',
+      create: async () =>
+        new StdioMCPClient({
+          command: 'npx',
+          args: ['-y', '@modelcontextprotocol/server-memory'],
+          env: { MEMORY_FILE_PATH: path.join(dir, `upstream-${++files}.jsonl`) },
+        }),
+      dispose: client => (client as StdioMCPClient).close(),
+    });
+  }
+
+  try {
+    for (const [i, target] of targets.entries()) {
+      console.log(`Test ${i + 1}: ${target.name}...`);
+      const passed = await runConformanceSuite(target);
+      console.log(`✓ ${passed} cases passed\n`);
+    }
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
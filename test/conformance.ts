@@ -0,0 +1,199 @@
+/**
+ * Memory Server Conformance Suite
+ *
+ * Behavior that every memory client must share with
+ * @modelcontextprotocol/server-memory. The cases only use callTool, so
+ * the same suite runs against the mock, the JSONL client, a stdio server
+ * and every client decorator. test/conformance-test.ts lists the targets;
+ * add new MCPClientInterface implementations there.
+ */
+
+import assert from 'node:assert/strict';
+import type { Graph, MCPClientInterface, SearchResult } from '../servers/memory/index.js';
+
+export interface ConformanceTarget {
+  name: string;
+  /** A client over an empty graph */
+  create(): Promise<MCPClientInterface>;
+  /** Release what create() set up, e.g. a server process */
+  dispose?(client: MCPClientInterface): Promise<void>;
+}
+
+interface ConformanceCase {
+  name: string;
+  run(client: MCPClientInterface): Promise<void>;
+}
+
+/** Written through the client before each case */
+const SEED: Graph = {
+  entities: [
+    { name: 'Alice', entityType: 'Person', observations: ['works at Acme', 'likes coffee'] },
+    { name: 'Bob', entityType: 'Person', observations: ['likes tea'] },
+    { name: 'Acme', entityType: 'Company', observations: ['founded 1999'] },
+  ],
+  relations: [
+    { from: 'Alice', to: 'Acme', relationType: 'works_at' },
+    { from: 'Bob', to: 'Acme', relationType: 'works_at' },
+    { from: 'Alice', to: 'Bob', relationType: 'knows' },
+  ],
+};
+
+const names = (result: { entities: Array<{ name: string }> }) => result.entities.map(e => e.name);
+const edges = (result: { relations: Array<{ from: string; to: string; relationType: string }> }) =>
+  result.relations.map(r => `${r.from} ${r.relationType} ${r.to}`);
+const readGraph = (client: MCPClientInterface) => client.callTool<Graph>('read_graph', {});
+
+export const conformanceCases: ConformanceCase[] = [
+  {
+    name: 'read_graph returns entities and relations without a type field',
+    async run(client) {
+      assert.deepEqual(await readGraph(client), SEED);
+    },
+  },
+  {
+    name: 'create_entities skips existing names',
+    async run(client) {
+      const result = await client.callTool<{ entities: Array<{ name: string }> }>('create_entities', {
+        entities: [
+          { name: 'Alice', entityType: 'Robot', observations: [] },
+          { name: 'Carol', entityType: 'Person', observations: ['new here'] },
+        ],
+      });
+      assert.deepEqual(names(result), ['Carol']);
+      const graph = await readGraph(client);
+      assert.deepEqual(graph.entities[0], SEED.entities[0]);
+      assert.deepEqual(names(graph), ['Alice', 'Bob', 'Acme', 'Carol']);
+    },
+  },
+  {
+    name: 'create_relations skips duplicates',
+    async run(client) {
+      const result = await client.callTool<Graph>('create_relations', {
+        relations: [
+          { from: 'Alice', to: 'Bob', relationType: 'knows' },
+          { from: 'Bob', to: 'Alice', relationType: 'knows' },
+        ],
+      });
+      assert.deepEqual(edges(result), ['Bob knows Alice']);
+      assert.equal((await readGraph(client)).relations.length, 4);
+    },
+  },
+  {
+    name: 'add_observations skips stored contents but keeps repeats within a call',
+    async run(client) {
+      const result = await client.callTool<{ results: unknown[] }>('add_observations', {
+        observations: [{ entityName: 'Alice', contents: ['likes coffee', 'plays chess', 'plays chess'] }],
+      });
+      assert.deepEqual(result.results, [{ entityName: 'Alice', addedObservations: ['plays chess', 'plays chess'] }]);
+      const [alice] = (await client.callTool<SearchResult>('open_nodes', { names: ['Alice'] })).entities;
+      assert.deepEqual(alice.observations, ['works at Acme', 'likes coffee', 'plays chess', 'plays chess']);
+    },
+  },
+  {
+    name: 'add_observations rejects unknown entities and changes nothing',
+    async run(client) {
+      await assert.rejects(
+        client.callTool('add_observations', {
+          observations: [
+            { entityName: 'Bob', contents: ['likes cake'] },
+            { entityName: 'Zed', contents: ['unknown'] },
+          ],
+        }),
+        /Entity with name Zed not found/
+      );
+      assert.deepEqual(await readGraph(client), SEED);
+    },
+  },
+  {
+    name: 'delete_entities removes their relations and ignores unknown names',
+    async run(client) {
+      await client.callTool('delete_entities', { entityNames: ['Acme', 'Nobody'] });
+      const graph = await readGraph(client);
+      assert.deepEqual(names(graph), ['Alice', 'Bob']);
+      assert.deepEqual(edges(graph), ['Alice knows Bob']);
+    },
+  },
+  {
+    name: 'delete_observations removes the listed observations',
+    async run(client) {
+      await client.callTool('delete_observations', {
+        deletions: [
+          { entityName: 'Alice', observations: ['likes coffee', 'never observed'] },
+          { entityName: 'Nobody', observations: ['anything'] },
+        ],
+      });
+      const graph = await readGraph(client);
+      assert.deepEqual(graph.entities[0].observations, ['works at Acme']);
+      assert.deepEqual(graph.entities.slice(1), SEED.entities.slice(1));
+    },
+  },
+  {
+    name: 'delete_relations removes exact matches only',
+    async run(client) {
+      await client.callTool('delete_relations', {
+        relations: [
+          { from: 'Alice', to: 'Bob', relationType: 'knows' },
+          { from: 'Bob', to: 'Alice', relationType: 'knows' },
+          { from: 'Alice', to: 'Acme', relationType: 'owns' },
+        ],
+      });
+      assert.deepEqual(edges(await readGraph(client)), ['Alice works_at Acme', 'Bob works_at Acme']);
+    },
+  },
+  {
+    name: 'search_nodes matches names, types and observations case-insensitively',
+    async run(client) {
+      const search = (query: string) => client.callTool<SearchResult>('search_nodes', { query });
+      assert.deepEqual(names(await search('TEA')), ['Bob']);
+      assert.deepEqual(names(await search('acme')), ['Alice', 'Acme']);
+      assert.deepEqual(names(await search('nothing matches')), []);
+      const tea = await search('tea');
+      assert.deepEqual(edges(tea), ['Bob works_at Acme', 'Alice knows Bob']);
+      assert.deepEqual(names(await search('person')), ['Alice', 'Bob']);
+    },
+  },
+  {
+    name: 'open_nodes skips unknown names and returns relations with either end among the opened entities',
+    async run(client) {
+      const opened = await client.callTool<SearchResult>('open_nodes', { names: ['Bob', 'Nobody'] });
+      assert.deepEqual(opened, {
+        entities: [SEED.entities[1]],
+        relations: [SEED.relations[1], SEED.relations[2]],
+      });
+    },
+  },
+  {
+    name: 'results are copies of the stored graph',
+    async run(client) {
+      const graph = await readGraph(client);
+      graph.entities[0].observations.push('changed by the caller');
+      graph.relations.length = 0;
+      const [bob] = (await client.callTool<SearchResult>('open_nodes', { names: ['Bob'] })).entities;
+      bob.observations.length = 0;
+      assert.deepEqual(await readGraph(client), SEED);
+    },
+  },
+];
+
+/**
+ * Run every case against a fresh, seeded client from `target`
+ *
+ * @throws On the first failing case, naming the target and the case
+ */
+export async function runConformanceSuite(target: ConformanceTarget): Promise<number> {
+  for (const { name, run } of conformanceCases) {
+    const client = await target.create();
+    try {
+      await client.callTool('create_entities', { entities: SEED.entities });
+      await client.callTool('create_relations', { relations: SEED.relations });
+      await run(client);
+    } catch (error) {
+      throw new Error(`${target.name}: ${name}: ${error instanceof Error ? error.message : String(error)}`, {
+        cause: error,
+      });
+    } finally {
+      await target.dispose?.(client);
+    }
+  }
+  return conformanceCases.length;
+}
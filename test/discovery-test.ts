@@ -0,0 +1,58 @@
+/**
+ * Test: Progressive Tool Discovery
+ *
+ * Searches the sandbox API index built from servers/memory and checks
+ * each detail level returns what the model needs and nothing more.
+ */
+
+import assert from 'node:assert/strict';
+import { searchApis, formatApiResults } from '../servers/discovery.js';
+
+async function runTest() {
+  console.log('=== API Discovery Test ===\n');
+
+  // Test 1: Everything, names only
+  console.log('Test 1: Listing all API names...');
+  const all = await searchApis('', { includeTypes: false });
+  const names = await formatApiResults(all, 'names');
+  assert.ok(names.includes('memory.readGraph'));
+  assert.ok(names.includes('memory.deleteRelations'));
+  assert.ok(all.every(e => e.kind === 'function'));
+  console.log(`✓ ${all.length} functions\n`);
+
+  // Test 2: Keyword search with signatures
+  console.log('Test 2: Searching "observation" with signatures...');
+  const observations = await searchApis('observation', { includeTypes: false });
+  assert.deepEqual(
+    observations.map(e => e.name).slice(0, 2),
+    ['addObservations', 'deleteObservations']
+  );
+  const signatures = await formatApiResults(observations.slice(0, 2), 'signatures');
+  assert.ok(signatures.includes('memory.addObservations(observations: AddObservationInput[])'));
+  assert.ok(signatures.includes('Add observations to existing entities'));
+  assert.ok(!signatures.includes('@example'));
+  console.log(signatures.split('\n').map(line => `  ${line}`).join('\n'));
+  console.log();
+
+  // Test 3: Full docs pull in referenced types
+  console.log('Test 3: Full docs for openNodes...');
+  const open = await searchApis('openNodes');
+  const full = await formatApiResults(open, 'full');
+  assert.ok(full.includes('@example'));
+  assert.ok(full.includes('interface SearchResult'));
+  assert.ok(full.includes('interface EntityWithType'));
+  assert.ok(full.includes('interface RelationWithType'));
+  console.log(`✓ ${full.split('\n').length} lines including referenced types\n`);
+
+  // Test 4: No match
+  console.log('Test 4: Searching for something that does not exist...');
+  assert.equal(await formatApiResults(await searchApis('salesforce'), 'names'), 'No matching APIs');
+  console.log('✓ No matching APIs\n');
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
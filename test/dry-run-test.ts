@@ -0,0 +1,128 @@
+/**
+ * Test: Dry Run
+ *
+ * Runs mutating code with `dryRun: true` and checks that the real graph is
+ * untouched, that the code still sees its own writes, and that the
+ * reported diff can be committed afterwards.
+ */
+
+import assert from 'node:assert/strict';
+import { executeCode } from '../executor/index.js';
+import {
+  setMCPClient,
+  MockMCPClient,
+  diffGraphs,
+  applyGraphDiff,
+  summarizeGraphDiff,
+  readGraph,
+  type Graph,
+} from '../servers/memory/index.js';
+
+function testGraph(): Graph {
+  return {
+    entities: ['001', '002', '003'].map((id, i) => ({
+      name: `Record_${id}`,
+      entityType: 'TestRecord',
+      observations: [i === 2 ? 'status: inactive' : 'status: active'],
+    })),
+    relations: [{ from: 'Record_001', to: 'Record_003', relationType: 'depends_on' }],
+  };
+}
+
+async function runTest() {
+  console.log('=== Dry Run Test ===\n');
+
+  const mockClient = new MockMCPClient();
+  mockClient.loadData(testGraph());
+  setMCPClient(mockClient);
+
+  const batch = `
+    const graph = await memory.readGraph();
+    const inactive = graph.entities.filter(e => e.observations.includes('status: inactive'));
+    await memory.deleteEntities(inactive.map(e => e.name));
+    await memory.addObservations([{ entityName: 'Record_001', contents: ['processed: true'] }]);
+    await memory.deleteObservations([{ entityName: 'Record_002', observations: ['status: active'] }]);
+    await memory.createEntities([{ name: 'Report', entityType: 'Report', observations: [] }]);
+    await memory.createRelations([{ from: 'Report', to: 'Record_001', relationType: 'covers' }]);
+    console.log('Entities now:', (await memory.readGraph()).entities.length);
+  `;
+
+  // Test 1: Diffing two graphs
+  console.log('Test 1: Diffing graphs...');
+  const after = testGraph();
+  after.entities[0].observations.push('note: x');
+  after.entities[1].entityType = 'Archived';
+  after.relations = [];
+  const diff = diffGraphs(testGraph(), after);
+  assert.deepEqual(diff.addedObservations, [{ entityName: 'Record_001', contents: ['note: x'] }]);
+  assert.deepEqual(diff.deletedEntities.map(e => e.name), ['Record_002']);
+  assert.deepEqual(diff.createdEntities.map(e => e.entityType), ['Archived']);
+  assert.deepEqual(diff.deletedRelations, [{ from: 'Record_001', to: 'Record_003', relationType: 'depends_on' }]);
+  console.log(`✓ ${summarizeGraphDiff(diff)}\n`);
+
+  // Test 2: Writes go to the overlay only
+  console.log('Test 2: Dry-running a batch...');
+  const result = await executeCode(batch, { dryRun: true });
+  assert.equal(result.status, 'success', result.error);
+  assert.deepEqual(result.output, ['Entities now: 3']);
+  assert.deepEqual(await readGraph(), testGraph());
+  assert.ok(result.diff);
+  assert.deepEqual(result.diff.deletedEntities.map(e => e.name), ['Record_003']);
+  assert.deepEqual(result.diff.createdEntities, [{ name: 'Report', entityType: 'Report', observations: [] }]);
+  assert.deepEqual(result.diff.addedObservations, [{ entityName: 'Record_001', contents: ['processed: true'] }]);
+  assert.deepEqual(result.diff.deletedObservations, [{ entityName: 'Record_002', observations: ['status: active'] }]);
+  assert.deepEqual(result.diff.createdRelations, [{ from: 'Report', to: 'Record_001', relationType: 'covers' }]);
+  assert.deepEqual(result.diff.deletedRelations, [{ from: 'Record_001', to: 'Record_003', relationType: 'depends_on' }]);
+  console.log(`✓ Graph unchanged; diff: ${summarizeGraphDiff(result.diff)}\n`);
+
+  // Test 3: Concurrent executions keep using the real graph
+  console.log('Test 3: Running a normal execution alongside a dry run...');
+  const [dry, normal] = await Promise.all([
+    executeCode(`
+      await memory.deleteEntities(['Record_001', 'Record_002', 'Record_003']);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      console.log((await memory.readGraph()).entities.length);
+    `, { dryRun: true }),
+    executeCode(`
+      await new Promise(resolve => setTimeout(resolve, 20));
+      console.log((await memory.readGraph()).entities.length);
+    `),
+  ]);
+  assert.deepEqual(dry.output, ['0']);
+  assert.deepEqual(normal.output, ['3']);
+  assert.equal(normal.diff, undefined);
+  console.log(`✓ Dry run saw ${dry.output[0]} entities, normal run saw ${normal.output[0]}\n`);
+
+  // Test 4: Worker isolation and read-only code
+  console.log('Test 4: Dry run in a worker, and a read-only dry run...');
+  const inWorker = await executeCode(batch, { dryRun: true, isolation: 'worker' });
+  assert.equal(inWorker.status, 'success', inWorker.error);
+  assert.deepEqual(inWorker.diff, result.diff);
+  const readOnly = await executeCode('console.log((await memory.searchNodes("active")).entities.length);', { dryRun: true });
+  assert.equal(summarizeGraphDiff(readOnly.diff!), 'no changes');
+  assert.deepEqual(await readGraph(), testGraph());
+  console.log('✓ Same diff from the worker; read-only run has no changes\n');
+
+  // Test 5: Committing the reviewed diff
+  console.log('Test 5: Committing the diff...');
+  const direct = new MockMCPClient();
+  direct.loadData(testGraph());
+  await applyGraphDiff(result.diff, direct);
+  const real = await executeCode(batch);
+  assert.equal(real.status, 'success', real.error);
+  const expected = await readGraph();
+  const committed = await direct.callTool<Graph>('read_graph', {});
+  assert.deepEqual(
+    committed.entities.map(e => [e.name, e.observations]).sort(),
+    expected.entities.map(e => [e.name, e.observations]).sort()
+  );
+  assert.deepEqual(committed.relations, expected.relations);
+  console.log(`✓ Committed graph matches running the batch for real (${committed.entities.length} entities)\n`);
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
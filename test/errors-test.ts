@@ -0,0 +1,203 @@
+/**
+ * Test: Input Validation and Error Codes
+ *
+ * Checks that the memory wrappers reject malformed arguments before any
+ * tool call, that failures carry NOT_FOUND, CONFLICT and TRANSPORT_ERROR
+ * codes, and that the codes reach agent code and the execution result in
+ * both isolation modes.
+ */
+
+import assert from 'node:assert/strict';
+import { executeCode, createExecutionRecord, type IsolationMode } from '../executor/index.js';
+import {
+  setMCPClient,
+  registerMCPClient,
+  unregisterMCPClient,
+  MockMCPClient,
+  StdioMCPClient,
+  TokenizingMCPClient,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  TransportError,
+  createEntities,
+  addObservations,
+  deleteObservations,
+  searchNodes,
+  openNodes,
+  queryNodes,
+  neighbors,
+  connectedComponents,
+  getAttributes,
+  setAttribute,
+  incrementAttribute,
+  readGraph,
+  type MCPClientInterface,
+} from '../servers/memory/index.js';
+
+/** Mock that counts the tool calls reaching it */
+class CountingClient implements MCPClientInterface {
+  calls = 0;
+  readonly mock = new MockMCPClient();
+
+  async callTool<T>(toolName: string, params: Record<string, unknown>): Promise<T> {
+    this.calls++;
+    return this.mock.callTool<T>(toolName, params);
+  }
+}
+
+async function runTest() {
+  console.log('=== Input Validation and Error Codes Test ===\n');
+
+  const client = new CountingClient();
+  client.mock.loadData({
+    entities: [
+      { type: 'entity', name: 'Record_001', entityType: 'TestRecord', observations: ['status: active', 'count: 2'] },
+    ],
+    relations: [],
+  });
+  setMCPClient(client);
+
+  // Test 1: Malformed arguments never reach the server
+  console.log('Test 1: Validation...');
+  const invalid: Array<[() => Promise<unknown>, RegExp]> = [
+    [() => createEntities([{ name: 'X', entityType: 'T' }] as never), /^"entities\[0\]\.observations" is required$/],
+    [
+      () => createEntities([{ name: 'X', entityType: 'T', observations: ['ok', 7] }] as never),
+      /^"entities\[0\]\.observations\[1\]" must be a string$/,
+    ],
+    [() => createEntities('X' as never), /^"entities" must be an array of objects$/],
+    [
+      () => addObservations([{ entityName: 'Record_001', contents: 'a' }] as never),
+      /^"observations\[0\]\.contents" must be an array of strings$/,
+    ],
+    [() => deleteObservations([null] as never), /^"deletions\[0\]" must be an object$/],
+    [() => openNodes([1] as never), /^"names\[0\]" must be a string$/],
+    [() => searchNodes('x', { limit: '5' } as never), /^"limit" must be a non-negative integer$/],
+    [() => searchNodes('x', null as never), /^"options" must be an options object$/],
+    [() => searchNodes('x', { limt: 5 } as never), /^Unknown option "limt"; expected one of: ranked, limit, prefix, fuzzy$/],
+    [() => queryNodes(42 as never), /^"query" must be a string$/],
+    [() => neighbors('Record_001', { direction: 'up' } as never), /^"direction" must be "out", "in" or "both"$/],
+    [() => connectedComponents({ relationType: [1] } as never), /^"relationType" must be a string or an array of strings$/],
+    [() => getAttributes('Record_001', { coerce: 'yes' } as never), /^"coerce" must be a boolean$/],
+    [() => setAttribute('Record_001', 'status', { text: 'on' } as never), /^"value" must be a string, a number or a boolean$/],
+    [() => incrementAttribute('Record_001', 'count', '1' as never), /^"by" must be a number$/],
+  ];
+  for (const [call, message] of invalid) {
+    await assert.rejects(call, error => {
+      assert.ok(error instanceof ValidationError);
+      assert.equal(error.code, 'INVALID_INPUT');
+      assert.match(error.message, message);
+      return true;
+    });
+  }
+  assert.equal(client.calls, 0);
+  const [entity] = (await readGraph()).entities;
+  await createEntities([{ ...entity, name: 'Record_002' }]);
+  console.log(`✓ ${invalid.length} malformed calls rejected without a tool call; readGraph() entities accepted as input\n`);
+
+  // Test 2: Missing entities and conflicting state
+  console.log('Test 2: NOT_FOUND and CONFLICT...');
+  await assert.rejects(getAttributes('Nope'), NotFoundError);
+  await assert.rejects(neighbors('Nope'), NotFoundError);
+  await assert.rejects(addObservations([{ entityName: 'Nope', contents: ['x'] }]), NotFoundError);
+  await assert.rejects(incrementAttribute('Record_001', 'status'), ConflictError);
+  await assert.rejects(incrementAttribute('Record_001', 'count', NaN), ValidationError);
+
+  // Servers that report a missing entity as plain text
+  setMCPClient({
+    async callTool() {
+      throw new Error('Entity with name Nope not found');
+    },
+  });
+  await assert.rejects(addObservations([{ entityName: 'Nope', contents: ['x'] }]), {
+    name: 'NotFoundError',
+    code: 'NOT_FOUND',
+    message: 'Entity with name Nope not found',
+  });
+  const tokenizing = new TokenizingMCPClient(client.mock);
+  const missing = { observations: [{ entityName: 'Nope', contents: [] }] };
+  await assert.rejects(tokenizing.callTool('add_observations', missing), {
+    name: 'NotFoundError',
+    code: 'NOT_FOUND',
+  });
+  console.log('✓ Typed errors from the wrappers, the mock and plain-text server errors\n');
+
+  // Test 3: Servers that cannot be reached
+  console.log('Test 3: TRANSPORT_ERROR...');
+  const unreachable = new StdioMCPClient({ command: '/nonexistent/memory-server' });
+  setMCPClient(unreachable);
+  await assert.rejects(readGraph(), error => {
+    assert.ok(error instanceof TransportError);
+    assert.equal(error.code, 'TRANSPORT_ERROR');
+    assert.match(error.message, /^Could not start \/nonexistent\/memory-server: .*ENOENT/);
+    return true;
+  });
+  await unreachable.close();
+  console.log('✓ Failed start reported as TransportError\n');
+
+  // Test 4: Codes in agent code and in the execution result
+  console.log('Test 4: Codes through the sandbox...');
+  setMCPClient(client);
+  const modes: IsolationMode[] = ['vm', 'worker'];
+  for (const isolation of modes) {
+    const caught = await executeCode(`
+      const codes = [];
+      for (const call of [
+        () => memory.getAttributes('Nope'),
+        () => memory.openNodes('Record_001'),
+        () => memory.incrementAttribute('Record_001', 'status'),
+      ]) {
+        try { await call(); } catch (error) { codes.push(error.name + ' ' + error.code); }
+      }
+      try { await memory.getAttributes('Nope'); } catch (error) { return { codes, error }; }
+    `, { isolation });
+    assert.equal(caught.status, 'success', caught.error);
+    assert.deepEqual(caught.returnValue, {
+      codes: ['NotFoundError NOT_FOUND', 'ValidationError INVALID_INPUT', 'ConflictError CONFLICT'],
+      error: { name: 'NotFoundError', message: 'Entity not found: Nope', code: 'NOT_FOUND' },
+    });
+
+    const uncaught = await executeCode(`await memory.neighbors('Record_001', { depth: -1 });`, { isolation });
+    assert.equal(uncaught.status, 'error');
+    assert.equal(uncaught.error, '"depth" must be a non-negative integer');
+    assert.equal(uncaught.errorCode, 'INVALID_INPUT');
+    const record = createExecutionRecord({
+      source: 'execute_code',
+      code: '',
+      options: { isolation },
+      result: uncaught,
+      startedAt: new Date(),
+    });
+    assert.equal(record.errorCode, 'INVALID_INPUT');
+  }
+  registerMCPClient('tickets', client.mock);
+  for (const isolation of modes) {
+    const generic = await executeCode(`
+      const codes = [];
+      for (const args of [[42], ['list_tickets', 'open'], ['list_tickets', null]]) {
+        try { await tickets.callTool(...args); } catch (error) { codes.push(error.code + ': ' + error.message); }
+      }
+      return codes;
+    `, { isolation });
+    assert.deepEqual(generic.returnValue, [
+      'INVALID_INPUT: "toolName" must be a string',
+      'INVALID_INPUT: "params" must be an object',
+      'INVALID_INPUT: "params" must be an object',
+    ]);
+  }
+  unregisterMCPClient('tickets');
+  const plain = await executeCode(`throw new Error('no code');`);
+  assert.equal(plain.errorCode, undefined);
+  const timedOut = await executeCode(`while (true) {}`, { timeoutMs: 100 });
+  assert.equal(timedOut.status, 'timeout');
+  assert.equal(timedOut.errorCode, undefined);
+  console.log(`✓ Codes reach agent code and errorCode in ${modes.join(' and ')} isolation; callTool checks its arguments\n`);
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
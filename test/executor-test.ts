@@ -9,7 +9,8 @@
  * - Code execution: 1 executeCode call, expected <1 second (for mock)
  */
 
-import { executeCode } from '../executor/index.js';
+import assert from 'node:assert/strict';
+import { executeCode, listSessions, destroySession, setSessionIdleTtl } from '../executor/index.js';
 import { setMCPClient, MockMCPClient, type Graph } from '../servers/memory/index.js';
 
 async function runTest() {
@@ -127,6 +128,200 @@ async function runTest() {
   console.log(`✓ Elapsed: ${largeResult.elapsedMs}ms`);
   console.log(`  (Projected direct call time: ~7 minutes)\n`);
 
+  // Test 5: Async timeout
+  console.log('Test 5: Never-resolving await with 200ms timeout...');
+  const hangResult = await executeCode(`
+    console.log('before hang');
+    await new Promise(() => {});
+  `, { timeoutMs: 200 });
+  assert.equal(hangResult.status, 'timeout');
+  assert.deepEqual(hangResult.output, ['before hang']);
+  console.log(`✓ Status: ${hangResult.status} (${hangResult.error})`);
+  console.log(`  Partial output kept: ${hangResult.output.join(', ')}\n`);
+
+  // Test 6: Synchronous loop timeout
+  console.log('Test 6: Infinite loop with 200ms timeout...');
+  const loopResult = await executeCode('while (true) {}', { timeoutMs: 200 });
+  assert.equal(loopResult.status, 'timeout');
+  console.log(`✓ Status: ${loopResult.status}\n`);
+
+  // Test 7: Cancellation
+  console.log('Test 7: Aborting a setTimeout loop...');
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 400);
+  const abortResult = await executeCode(`
+    let ticks = 0;
+    while (true) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      ticks++;
+      console.log('tick', ticks);
+    }
+  `, { signal: controller.signal });
+  assert.equal(abortResult.status, 'aborted');
+  assert.ok(abortResult.output.length > 0);
+  const ticksAtAbort = abortResult.output.length;
+  await new Promise(resolve => setTimeout(resolve, 100));
+  assert.equal(abortResult.output.length, ticksAtAbort);
+  console.log(`✓ Status: ${abortResult.status} after ${ticksAtAbort} ticks, no output after abort\n`);
+
+  // Test 8: Worker isolation
+  console.log('Test 8: Worker isolation with bridged memory calls...');
+  const workerResult = await executeCode(`
+    const found = await memory.openNodes(['Record_001']);
+    await memory.addObservations([{ entityName: 'Record_001', contents: ['worker_test: updated'] }]);
+    console.log('Found', found.entities.length, 'record in worker');
+  `, { isolation: 'worker' });
+  assert.equal(workerResult.status, 'success');
+  const workerCheck = await executeCode(`
+    const record = await memory.openNodes(['Record_001']);
+    console.log(record.entities[0].observations.includes('worker_test: updated'));
+  `);
+  assert.deepEqual(workerCheck.output, ['true']);
+  console.log(`✓ Output: ${workerResult.output.join(', ')}`);
+  console.log(`  Update visible to host client: ${workerCheck.output[0]}\n`);
+
+  // Test 9: Hard kill of a tight loop inside a promise callback
+  console.log('Test 9: Tight loop in promise callback (worker, 1000ms timeout)...');
+  const spinResult = await executeCode(`
+    console.log('spinning');
+    await Promise.resolve().then(() => { while (true) {} });
+  `, { isolation: 'worker', timeoutMs: 1000 });
+  assert.equal(spinResult.status, 'timeout');
+  assert.deepEqual(spinResult.output, ['spinning']);
+  console.log(`✓ Status: ${spinResult.status}, partial output: ${spinResult.output.join(', ')}\n`);
+
+  // Test 10: Heap limit
+  console.log('Test 10: Runaway allocation (worker, 32MB heap)...');
+  const heapResult = await executeCode(`
+    const chunks = [];
+    while (true) chunks.push(new Array(100000).fill('x'));
+  `, { isolation: 'worker', maxHeapMb: 32, timeoutMs: 10000 });
+  assert.equal(heapResult.status, 'error');
+  console.log(`✓ Status: ${heapResult.status} (${heapResult.error})\n`);
+
+  // Test 11: Persistent sessions
+  console.log('Test 11: Session state across calls...');
+  const first = await executeCode(`
+    const graph = await memory.readGraph();
+    const { entities } = graph, inactive = entities.filter(e => e.observations.includes('status: inactive'));
+    let calls = 1;
+    function describe() { return inactive.length + ' inactive after ' + calls + ' call(s)'; }
+    class Counter { static total = 0; }
+    console.log(describe());
+  `, { sessionId: 'test-session' });
+  const second = await executeCode(`
+    calls++;
+    Counter.total += entities.length;
+    console.log(describe(), Counter.total);
+  `, { sessionId: 'test-session' });
+  const fresh = await executeCode('console.log(typeof inactive);');
+  assert.equal(first.status, 'success');
+  assert.deepEqual(second.output, ['16 inactive after 2 call(s) 50']);
+  assert.deepEqual(fresh.output, ['undefined']);
+  console.log(`✓ Call 1: ${first.output.join(', ')}`);
+  console.log(`✓ Call 2: ${second.output.join(', ')}`);
+  console.log(`  Without session: ${fresh.output.join(', ')}`);
+
+  const listed = listSessions();
+  assert.equal(listed.length, 1);
+  assert.equal(listed[0].executionCount, 2);
+  assert.ok(destroySession('test-session'));
+  assert.equal(listSessions().length, 0);
+  const afterDestroy = await executeCode('console.log(typeof inactive);', { sessionId: 'test-session' });
+  assert.deepEqual(afterDestroy.output, ['undefined']);
+  destroySession('test-session');
+  console.log(`✓ Listed ${listed.length} session, destroyed it, new context starts empty\n`);
+
+  // Test 12: Loops after an await are stopped by the timeout
+  console.log('Test 12: Loops after an await with 200ms timeout (default isolation)...');
+  for (const loop of ['await memory.readGraph(); while (true) {}', 'while (true) { await null; }']) {
+    const result = await executeCode(loop, { timeoutMs: 200 });
+    assert.equal(result.status, 'timeout', loop);
+  }
+  console.log('✓ Both loop shapes timed out\n');
+
+  // Test 13: No writes reach the client once a run has timed out
+  console.log('Test 13: Write loop against a slow client with 200ms timeout...');
+  let writes = 0;
+  setMCPClient({
+    async callTool<T>(toolName: string, params: Record<string, unknown>): Promise<T> {
+      if (toolName === 'create_entities') writes++;
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return mockClient.callTool<T>(toolName, params);
+    },
+  });
+  for (const isolation of ['vm', 'worker'] as const) {
+    writes = 0;
+    const result = await executeCode(`
+      for (let i = 0; ; i++) {
+        await memory.createEntities([{ name: 'Late_' + i, entityType: 'Late', observations: [] }]);
+      }
+    `, { isolation, timeoutMs: 200 });
+    const writesAtTimeout = writes;
+    await new Promise(resolve => setTimeout(resolve, 200));
+    assert.equal(result.status, 'timeout');
+    assert.ok(writesAtTimeout > 0);
+    assert.equal(writes, writesAtTimeout, isolation);
+    console.log(`✓ ${isolation}: ${writesAtTimeout} writes before the timeout, none after`);
+  }
+  setMCPClient(mockClient);
+  console.log();
+
+  // Test 14: Idle sessions expire
+  console.log('Test 14: Idle session expiry with a fake clock...');
+  const realNow = Date.now;
+  let clock = realNow();
+  Date.now = () => clock;
+  try {
+    setSessionIdleTtl(60_000);
+    await executeCode('const kept = 42;', { sessionId: 'idle-session' });
+    clock += 59_000;
+    const beforeExpiry = await executeCode('console.log(kept);', { sessionId: 'idle-session' });
+    assert.deepEqual(beforeExpiry.output, ['42']);
+    clock += 60_001;
+    assert.deepEqual(listSessions(), []);
+    assert.equal(destroySession('idle-session'), false);
+    const afterExpiry = await executeCode('console.log(typeof kept);', { sessionId: 'idle-session' });
+    assert.deepEqual(afterExpiry.output, ['undefined']);
+  } finally {
+    Date.now = realNow;
+    setSessionIdleTtl(15 * 60 * 1000);
+    destroySession('idle-session');
+  }
+  console.log('✓ Kept while used, evicted after 60s idle, its ID no longer destroys anything\n');
+
+  // Test 15: Stray calls from an earlier run cannot reach a later one
+  console.log('Test 15: Leftover loop from a timed-out run in the same session...');
+  writes = 0;
+  setMCPClient({
+    async callTool<T>(toolName: string, params: Record<string, unknown>): Promise<T> {
+      if (toolName === 'create_entities') writes++;
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return mockClient.callTool<T>(toolName, params);
+    },
+  });
+  try {
+    const stray = await executeCode(`
+      for (let i = 0; ; i++) {
+        await memory.createEntities([{ name: 'Stray_' + i, entityType: 'Stray', observations: [] }]);
+        console.log('stray', i);
+      }
+    `, { sessionId: 'stray-session', timeoutMs: 200 });
+    const writesAtTimeout = writes;
+    const later = await executeCode(`
+      await new Promise(resolve => setTimeout(resolve, 300));
+      console.log('later');
+    `, { sessionId: 'stray-session' });
+    assert.equal(stray.status, 'timeout');
+    assert.equal(later.status, 'success');
+    assert.deepEqual(later.output, ['later']);
+    assert.equal(writes, writesAtTimeout);
+  } finally {
+    setMCPClient(mockClient);
+    destroySession('stray-session');
+  }
+  console.log('✓ No writes or output from the first run during the second\n');
+
   // Summary
   console.log('=== Performance Comparison ===\n');
   console.log('| Operation          | Direct Calls | Code Execution |');
@@ -141,4 +336,7 @@ async function runTest() {
   console.log('=== All tests passed ===');
 }
 
-runTest().catch(console.error);
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,191 @@
+#!/usr/bin/env node
+/**
+ * Stand-in Memory MCP Server
+ *
+ * A small stdio MCP server that speaks the same tool names and input
+ * schemas as @modelcontextprotocol/server-memory, backed by MockMCPClient.
+ * Used by tests that need a real child process to talk to.
+ *
+ * Results are returned both as JSON text and as structuredContent.
+ * The extra `__exit` tool terminates the process so tests can
+ * exercise reconnection.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { MockMCPClient } from '../../servers/memory/index.js';
+
+const entitySchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'The name of the entity' },
+    entityType: { type: 'string', description: 'The type of the entity' },
+    observations: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'An array of observation contents associated with the entity',
+    },
+  },
+  required: ['name', 'entityType', 'observations'],
+};
+
+const relationSchema = {
+  type: 'object',
+  properties: {
+    from: { type: 'string', description: 'The name of the entity where the relation starts' },
+    to: { type: 'string', description: 'The name of the entity where the relation ends' },
+    relationType: { type: 'string', description: 'The type of the relation' },
+  },
+  required: ['from', 'to', 'relationType'],
+};
+
+const tools = [
+  {
+    name: 'create_entities',
+    description: 'Create multiple new entities in the knowledge graph',
+    inputSchema: {
+      type: 'object' as const,
+      properties: { entities: { type: 'array', items: entitySchema } },
+      required: ['entities'],
+    },
+  },
+  {
+    name: 'create_relations',
+    description: 'Create multiple new relations between entities in the knowledge graph',
+    inputSchema: {
+      type: 'object' as const,
+      properties: { relations: { type: 'array', items: relationSchema } },
+      required: ['relations'],
+    },
+  },
+  {
+    name: 'add_observations',
+    description: 'Add new observations to existing entities in the knowledge graph',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        observations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              entityName: { type: 'string', description: 'The name of the entity to add the observations to' },
+              contents: { type: 'array', items: { type: 'string' }, description: 'An array of observation contents to add' },
+            },
+            required: ['entityName', 'contents'],
+          },
+        },
+      },
+      required: ['observations'],
+    },
+  },
+  {
+    name: 'delete_entities',
+    description: 'Delete multiple entities and their associated relations from the knowledge graph',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        entityNames: { type: 'array', items: { type: 'string' }, description: 'An array of entity names to delete' },
+      },
+      required: ['entityNames'],
+    },
+  },
+  {
+    name: 'delete_observations',
+    description: 'Delete specific observations from entities in the knowledge graph',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        deletions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              entityName: { type: 'string', description: 'The name of the entity containing the observations' },
+              observations: { type: 'array', items: { type: 'string' }, description: 'An array of observations to delete' },
+            },
+            required: ['entityName', 'observations'],
+          },
+        },
+      },
+      required: ['deletions'],
+    },
+  },
+  {
+    name: 'delete_relations',
+    description: 'Delete multiple relations from the knowledge graph',
+    inputSchema: {
+      type: 'object' as const,
+      properties: { relations: { type: 'array', items: relationSchema, description: 'An array of relations to delete' } },
+      required: ['relations'],
+    },
+  },
+  {
+    name: 'read_graph',
+    description: 'Read the entire knowledge graph',
+    inputSchema: { type: 'object' as const, properties: {} },
+  },
+  {
+    name: 'search_nodes',
+    description: 'Search for nodes in the knowledge graph based on a query',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        query: { type: 'string', description: 'The search query to match against entity names, types, and observation content' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'open_nodes',
+    description: 'Open specific nodes in the knowledge graph by their names',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        names: { type: 'array', items: { type: 'string' }, description: 'An array of entity names to retrieve' },
+      },
+      required: ['names'],
+    },
+  },
+];
+
+const backend = new MockMCPClient();
+
+const server = new Server(
+  { name: 'memory-stand-in', version: '1.0.0' },
+  { capabilities: { tools: {} } }
+);
+
+server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools }));
+
+server.setRequestHandler(CallToolRequestSchema, async request => {
+  const { name, arguments: args = {} } = request.params;
+
+  if (name === '__exit') {
+    setImmediate(() => process.exit(0));
+    return { content: [{ type: 'text', text: 'exiting' }] };
+  }
+
+  try {
+    const result = await backend.callTool<Record<string, unknown>>(name, args);
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      structuredContent: result,
+    };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+      isError: true,
+    };
+  }
+});
+
+async function main() {
+  await server.connect(new StdioServerTransport());
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
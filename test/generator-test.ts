@@ -0,0 +1,168 @@
+/**
+ * Test: Wrapper Code Generator
+ *
+ * Generates wrappers from the stand-in memory server's tools/list,
+ * type-checks them, then mounts them in the sandbox as their own
+ * namespace and calls the server through them. Hostile tool names and
+ * unsafe target directories are refused or escaped.
+ */
+
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, readFile, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import ts from 'typescript';
+import { generateFromServer, generateServerWrappers, schemaToType, toCamelCase } from '../generator/index.js';
+import { executeCode, mountNamespace, unmountNamespace } from '../executor/index.js';
+import { StdioMCPClient, unregisterMCPClient, type MCPClientInterface } from '../servers/memory/index.js';
+
+const standInServer = fileURLToPath(new URL('./fixtures/memory-server.js', import.meta.url));
+const memoryDir = fileURLToPath(new URL('../servers/memory', import.meta.url));
+
+async function runTest() {
+  console.log('=== Wrapper Generator Test ===\n');
+
+  // Generated client.ts imports ../memory/client.js, so mirror the servers/ layout
+  const outDir = await mkdtemp(path.join(tmpdir(), 'code-mode-generator-'));
+  await symlink(memoryDir, path.join(outDir, 'memory'), 'dir');
+  await writeFile(path.join(outDir, 'package.json'), '{ "type": "module" }', 'utf-8');
+  const client = new StdioMCPClient({ command: process.execPath, args: [standInServer] });
+
+  try {
+    // Test 1: Schema conversion
+    console.log('Test 1: Converting JSON schemas...');
+    assert.equal(toCamelCase('create_entities'), 'createEntities');
+    assert.equal(toCamelCase('delete'), 'delete_');
+    assert.equal(schemaToType({ type: 'array', items: { type: 'integer' } }), 'number[]');
+    assert.equal(schemaToType({ enum: ['asc', 'desc'] }), '"asc" | "desc"');
+    assert.equal(schemaToType({ type: ['string', 'null'] }), 'string | null');
+    assert.equal(schemaToType({ anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] }), 'string | string[]');
+    assert.equal(schemaToType({ type: 'object', additionalProperties: { type: 'number' } }), 'Record<string, number>');
+    assert.equal(
+      schemaToType({ type: 'object', properties: { 'x-id': { type: 'string' } }, required: ['x-id'] }),
+      '{\n  "x-id": string;\n}'
+    );
+    console.log('✓ Primitives, enums, unions, records and quoted keys\n');
+
+    // Test 2: Generate from a live server
+    console.log('Test 2: Generating from the stand-in server...');
+    const written = await generateFromServer('graph', { command: process.execPath, args: [standInServer] }, outDir);
+    assert.deepEqual(written.map(file => path.basename(file)).sort(), ['client.ts', 'index.ts', 'operations.ts', 'types.ts']);
+    const operationsSource = await readFile(path.join(outDir, 'graph', 'operations.ts'), 'utf-8');
+    assert.match(operationsSource, /export async function createEntities\(entities: CreateEntitiesInput\['entities'\]\): Promise<unknown>/);
+    assert.match(operationsSource, /export async function readGraph\(\): Promise<unknown>/);
+    assert.match(operationsSource, /@example\n \* await graph\.openNodes\(\['names'\]\);/);
+    const typesSource = await readFile(path.join(outDir, 'graph', 'types.ts'), 'utf-8');
+    assert.match(typesSource, /export interface CreateEntitiesInput \{/);
+    assert.match(typesSource, /\/\*\* The name of the entity \*\/\n\s+name: string;/);
+    console.log(`✓ Wrote ${written.length} files\n`);
+
+    // Test 3: Generated code type-checks
+    console.log('Test 3: Type-checking generated wrappers...');
+    const generatedFiles = written.filter(file => file.endsWith('.ts'));
+    const program = ts.createProgram(generatedFiles, {
+      strict: true,
+      noEmit: true,
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.NodeNext,
+      moduleResolution: ts.ModuleResolutionKind.NodeNext,
+    });
+    const diagnostics = ts.getPreEmitDiagnostics(program);
+    assert.equal(
+      diagnostics.length,
+      0,
+      ts.formatDiagnostics(diagnostics, {
+        getCanonicalFileName: name => name,
+        getCurrentDirectory: () => outDir,
+        getNewLine: () => '\n',
+      })
+    );
+    console.log('✓ No type errors\n');
+
+    // Test 4: Mount the generated namespace and call the server from the sandbox
+    console.log('Test 4: Calling the server through the generated namespace...');
+    for (const file of generatedFiles) {
+      const { outputText } = ts.transpileModule(await readFile(file, 'utf-8'), {
+        compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ES2022 },
+      });
+      await writeFile(file.replace(/\.ts$/, '.js'), outputText, 'utf-8');
+    }
+    const generatedClient = (await import(pathToFileURL(path.join(outDir, 'graph', 'client.js')).href)) as {
+      setMCPClient(client: MCPClientInterface): void;
+    };
+    const operations = (await import(pathToFileURL(path.join(outDir, 'graph', 'operations.js')).href)) as Record<string, unknown>;
+    generatedClient.setMCPClient(client);
+    mountNamespace('graph', operations);
+
+    const result = await executeCode(`
+      await graph.createEntities([{ name: 'Gen_001', entityType: 'Generated', observations: ['from: codegen'] }]);
+      const found = await graph.openNodes(['Gen_001']);
+      console.log(found.entities[0].observations[0]);
+      console.log(typeof memory.readGraph);
+    `);
+    assert.equal(result.status, 'success', result.error);
+    assert.deepEqual(result.output, ['from: codegen', 'function']);
+    console.log(`✓ Output: ${result.output.join(', ')}\n`);
+
+    // Test 5: Worker isolation bridges mounted namespaces too
+    console.log('Test 5: Calling the generated namespace from a worker...');
+    const workerResult = await executeCode(`
+      const { entities } = await graph.searchNodes('codegen');
+      console.log(entities.map(e => e.name).join(','));
+    `, { isolation: 'worker' });
+    assert.equal(workerResult.status, 'success', workerResult.error);
+    assert.deepEqual(workerResult.output, ['Gen_001']);
+    console.log(`✓ Output: ${workerResult.output.join(', ')}\n`);
+
+    // Test 6: Without wrappers the registered server falls back to callTool
+    console.log('Test 6: Unmounting...');
+    assert.equal(unmountNamespace('graph'), true);
+    const generic = await executeCode(`
+      console.log(Object.keys(graph).join(','));
+      const found = await graph.callTool('open_nodes', { names: ['Gen_001'] });
+      console.log(found.entities.length);
+    `);
+    assert.equal(generic.status, 'success', generic.error);
+    assert.deepEqual(generic.output, ['callTool', '1']);
+    unregisterMCPClient('graph');
+    const unregistered = await executeCode('console.log(typeof graph);');
+    assert.deepEqual(unregistered.output, ['undefined']);
+    console.log('✓ graph falls back to callTool, then disappears once unregistered\n');
+
+    // Test 7: Tool names are data, and hand-written directories are left alone
+    console.log('Test 7: Hostile names and existing directories...');
+    const hostile = "x*/'); process.exit(1); ('";
+    const files = generateServerWrappers('hostile', [{ name: hostile, description: 'Hostile', inputSchema: { type: 'object' } }]);
+    for (const [file, source] of Object.entries(files)) {
+      const { diagnostics } = ts.transpileModule(source, { reportDiagnostics: true, fileName: file });
+      assert.equal(diagnostics?.length, 0, file);
+    }
+    assert.match(files['types.ts'], /Input for x\*\\\/'\); process/);
+    assert.match(files['operations.ts'], /return callMCPTool<unknown>\("x\*\/'\); process\.exit\(1\); \('", \{\}\);/);
+    assert.throws(() => generateServerWrappers('memory', []), /"memory": it is already a sandbox global/);
+    await mkdir(path.join(outDir, 'notes'));
+    await writeFile(path.join(outDir, 'notes', 'operations.ts'), 'export {};\n', 'utf-8');
+    await assert.rejects(
+      generateFromServer('notes', { command: process.execPath, args: [standInServer] }, outDir),
+      /holds operations\.ts, which was not generated/
+    );
+    assert.equal(await readFile(path.join(outDir, 'notes', 'operations.ts'), 'utf-8'), 'export {};\n');
+    await generateFromServer('rerun', { command: process.execPath, args: [standInServer] }, outDir);
+    const regenerated = await generateFromServer('rerun', { command: process.execPath, args: [standInServer] }, outDir);
+    assert.equal(regenerated.length, 4);
+    console.log('✓ Names escaped in code and comments; memory and hand-written directories refused\n');
+  } finally {
+    unmountNamespace('graph');
+    unregisterMCPClient('graph');
+    await client.close();
+    await rm(outDir, { recursive: true, force: true });
+  }
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,139 @@
+/**
+ * Test: Graph Traversal
+ *
+ * Builds a small service graph and checks neighbors, shortestPath,
+ * subgraph and connectedComponents, and that openNodes and searchNodes
+ * return the relations with either end among the entities they return.
+ */
+
+import assert from 'node:assert/strict';
+import { executeCode } from '../executor/index.js';
+import {
+  setMCPClient,
+  MockMCPClient,
+  openNodes,
+  searchNodes,
+  neighbors,
+  shortestPath,
+  subgraph,
+  connectedComponents,
+  type Graph,
+} from '../servers/memory/index.js';
+
+//   Web → API → Auth → UserDB
+//          ↓      ↑
+//        Cache  Admin (uses)
+//   Billing → Ledger      Orphan
+function testGraph(): Graph {
+  const entity = (name: string, entityType = 'Service') => ({ name, entityType, observations: [] });
+  const relation = (from: string, to: string, relationType = 'calls') => ({ from, to, relationType });
+  return {
+    entities: ['Web', 'API', 'Auth', 'Cache', 'Admin', 'Billing', 'Orphan'].map(name => entity(name)).concat(
+      entity('UserDB', 'Database'),
+      entity('Ledger', 'Database')
+    ),
+    relations: [
+      relation('Web', 'API'),
+      relation('API', 'Auth'),
+      relation('API', 'Cache'),
+      relation('Auth', 'UserDB', 'reads'),
+      relation('Admin', 'Auth', 'uses'),
+      relation('Billing', 'Ledger', 'reads'),
+      relation('Billing', 'Gone'),
+    ],
+  };
+}
+
+const names = (result: { entities: Array<{ name: string }> }) => result.entities.map(e => e.name);
+
+async function runTest() {
+  console.log('=== Graph Traversal Test ===\n');
+
+  const mockClient = new MockMCPClient();
+  mockClient.loadData(testGraph());
+  setMCPClient(mockClient);
+
+  // Test 1: openNodes and searchNodes return relations
+  console.log('Test 1: Relations in openNodes and searchNodes...');
+  const opened = await openNodes(['Web', 'API', 'Cache']);
+  assert.deepEqual(opened.relations, [
+    { from: 'Web', to: 'API', relationType: 'calls' },
+    { from: 'API', to: 'Auth', relationType: 'calls' },
+    { from: 'API', to: 'Cache', relationType: 'calls' },
+  ]);
+  assert.deepEqual((await searchNodes('Database')).relations.map(r => `${r.from}→${r.to}`), [
+    'Auth→UserDB',
+    'Billing→Ledger',
+  ]);
+  assert.deepEqual((await searchNodes('a')).relations.map(r => `${r.from}→${r.to}`), [
+    'Web→API',
+    'API→Auth',
+    'API→Cache',
+    'Auth→UserDB',
+    'Admin→Auth',
+    'Billing→Ledger',
+  ]);
+  console.log(`✓ openNodes returned ${opened.relations.length} relations\n`);
+
+  // Test 2: Neighbors by depth, direction and type
+  console.log('Test 2: neighbors...');
+  const around = await neighbors('API');
+  assert.deepEqual(names(around), ['Web', 'Auth', 'Cache']);
+  assert.equal(around.relations.length, 3);
+  const downstream = await neighbors('Web', { direction: 'out', depth: 3 });
+  assert.deepEqual(downstream.distances, { API: 1, Auth: 2, Cache: 2, UserDB: 3 });
+  assert.deepEqual(names(await neighbors('Auth', { direction: 'in' })), ['API', 'Admin']);
+  assert.deepEqual(names(await neighbors('Web', { relationType: ['reads', 'uses'], depth: 5 })), []);
+  assert.deepEqual(names(await neighbors('Billing')), ['Ledger']);
+  await assert.rejects(neighbors('Nope'), /Entity not found: Nope/);
+  await assert.rejects(neighbors('Web', { depth: -1 }), /"depth" must be a non-negative integer/);
+  await assert.rejects(neighbors('Web', { direction: 'up' as 'out' }), /"direction" must be/);
+  console.log(`✓ Web downstream: ${JSON.stringify(downstream.distances)}\n`);
+
+  // Test 3: Shortest paths
+  console.log('Test 3: shortestPath...');
+  const path = await shortestPath('Web', 'UserDB');
+  assert.deepEqual(names(path!), ['Web', 'API', 'Auth', 'UserDB']);
+  assert.deepEqual(path!.relations.map(r => r.relationType), ['calls', 'calls', 'reads']);
+  const reverse = await shortestPath('UserDB', 'Admin');
+  assert.deepEqual(names(reverse!), ['UserDB', 'Auth', 'Admin']);
+  assert.deepEqual(reverse!.relations.map(r => r.from), ['Auth', 'Admin']);
+  assert.equal(await shortestPath('UserDB', 'Admin', { direction: 'out' }), null);
+  assert.equal(await shortestPath('Web', 'Ledger'), null);
+  assert.deepEqual(await shortestPath('Web', 'Web'), { entities: [opened.entities[0]], relations: [] });
+  console.log(`✓ ${names(path!).join(' → ')}\n`);
+
+  // Test 4: Subgraphs and components
+  console.log('Test 4: subgraph and connectedComponents...');
+  const core = await subgraph(['Auth', 'Missing'], { depth: 1 });
+  assert.deepEqual(names(core), ['API', 'Auth', 'Admin', 'UserDB']);
+  assert.deepEqual(core.relations.map(r => `${r.from}→${r.to}`), ['API→Auth', 'Auth→UserDB', 'Admin→Auth']);
+  assert.deepEqual(names(await subgraph(['Web', 'Cache'])), ['Web', 'Cache']);
+  assert.deepEqual(await connectedComponents(), [
+    ['Web', 'API', 'Auth', 'Cache', 'Admin', 'UserDB'],
+    ['Billing', 'Ledger'],
+    ['Orphan'],
+  ]);
+  assert.deepEqual((await connectedComponents({ relationType: 'calls' }))[0], ['Web', 'API', 'Auth', 'Cache']);
+  console.log('✓ 3 components, dangling relation to "Gone" ignored\n');
+
+  // Test 5: From agent code
+  console.log('Test 5: Traversal in the sandbox...');
+  const result = await executeCode(`
+    const path = await memory.shortestPath('Web', 'UserDB');
+    const { distances } = await memory.neighbors('UserDB', { depth: 2 });
+    const groups = await memory.connectedComponents();
+    return { hops: path.relations.length, distances, groups: groups.length };
+  `, { isolation: 'worker' });
+  assert.equal(result.status, 'success', result.error);
+  assert.deepEqual(result.returnValue, { hops: 3, distances: { Auth: 1, API: 2, Admin: 2 }, groups: 3 });
+  assert.deepEqual(result.calls?.map(c => c.tool), ['read_graph', 'read_graph', 'read_graph']);
+  console.log(`✓ ${JSON.stringify(result.returnValue)}\n`);
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
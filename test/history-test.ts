@@ -0,0 +1,135 @@
+/**
+ * Test: Execution History
+ *
+ * Records runs in a temporary audit log and checks what each entry holds,
+ * the filters and paging, and that one run can be fetched and replayed.
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, appendFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  executeCode,
+  ExecutionHistory,
+  createExecutionRecord,
+  summarizeExecutionRecord,
+  type ExecutionOptions,
+} from '../executor/index.js';
+import { setMCPClient, MockMCPClient, readGraph } from '../servers/memory/index.js';
+
+async function runTest() {
+  console.log('=== Execution History Test ===\n');
+
+  const mockClient = new MockMCPClient();
+  mockClient.loadData({
+    entities: ['001', '002'].map(id => ({
+      type: 'entity' as const,
+      name: `Task_${id}`,
+      entityType: 'Task',
+      observations: ['status: open'],
+    })),
+    relations: [],
+  });
+  setMCPClient(mockClient);
+
+  const dir = await mkdtemp(path.join(tmpdir(), 'history-test-'));
+  const history = new ExecutionHistory(path.join(dir, 'logs', 'audit-log.jsonl'));
+
+  const run = async (source: string, code: string, options: ExecutionOptions = {}) => {
+    const startedAt = new Date();
+    const result = await executeCode(code, options);
+    await history.append(createExecutionRecord({ source, code, options, result, startedAt }));
+    return result;
+  };
+
+  // Test 1: What a record holds
+  console.log('Test 1: Recording a run...');
+  const update = `
+    const { entities } = await memory.searchNodes('open');
+    for (const entity of entities) {
+      await memory.addObservations([{ entityName: entity.name, contents: ['status: done'] }]);
+    }
+    console.log('updated', entities.length);
+  `;
+  const updated = await run('execute_code', update, { timeoutMs: 5000, isolation: 'vm', onOutput: () => {} });
+  const [record] = (await history.query()).records;
+  assert.equal(record.executionId, updated.executionId);
+  assert.equal(record.source, 'execute_code');
+  assert.equal(record.code, update);
+  assert.deepEqual(record.options, { timeoutMs: 5000, isolation: 'vm' });
+  assert.equal(record.status, 'success');
+  assert.equal(record.success, true);
+  assert.equal(record.outputLines, 1);
+  assert.equal(record.outputChars, 'updated 2'.length);
+  assert.ok(record.finishedAt >= record.startedAt);
+  assert.deepEqual(record.mutations, [
+    { tool: 'add_observations', params: { observations: [{ entityName: 'Task_001', contents: ['status: done'] }] } },
+    { tool: 'add_observations', params: { observations: [{ entityName: 'Task_002', contents: ['status: done'] }] } },
+  ]);
+  console.log(`✓ ${summarizeExecutionRecord(record)}\n`);
+
+  // Test 2: Failed runs and rejected writes
+  console.log('Test 2: Recording failures...');
+  await run('execute_code', 'await memory.deleteEntities(["Task_001"]);', { policy: { readOnly: true } });
+  await run('run_skill:count-tasks', 'console.log((await memory.readGraph()).entities.length);', {
+    globals: { args: { type: 'Task' } },
+  });
+  await run('execute_code', 'throw new Error("boom\\nsecond line");');
+  const [thrown, skill, denied] = (await history.query()).records;
+  assert.equal(denied.status, 'error');
+  assert.equal(denied.mutations[0].tool, 'delete_entities');
+  assert.match(denied.mutations[0].error!, /Policy violation/);
+  assert.deepEqual(skill.options, { globals: { args: { type: 'Task' } } });
+  assert.match(summarizeExecutionRecord(thrown), / execute_code error \d+ms, 0 output lines, 0 writes: boom$/);
+  console.log(`✓ ${summarizeExecutionRecord(denied)}\n`);
+
+  // Test 3: Filters and paging
+  console.log('Test 3: Filtering and paging...');
+  assert.equal((await history.query()).total, 4);
+  assert.equal((await history.query({ status: 'error' })).total, 2);
+  assert.deepEqual((await history.query({ source: 'run_skill:*' })).records.map(r => r.source), ['run_skill:count-tasks']);
+  assert.equal((await history.query({ source: 'run_skill' })).total, 0);
+  assert.equal((await history.query({ codeContains: 'searchNodes' })).records[0].executionId, updated.executionId);
+  assert.equal((await history.query({ mutatingOnly: true })).total, 2);
+  assert.equal((await history.query({ since: new Date(Date.now() + 60000).toISOString() })).total, 0);
+  assert.equal((await history.query({ until: new Date(Date.now() + 60000).toISOString() })).total, 4);
+  const page = await history.query({ limit: 2, offset: 2 });
+  assert.equal(page.total, 4);
+  assert.deepEqual(page.records.map(r => r.executionId), [denied.executionId, updated.executionId]);
+  await assert.rejects(history.query({ since: 'yesterday' }), /^Error: "since" must be an ISO timestamp .*, got "yesterday"$/);
+  await assert.rejects(history.query({ until: '2026-13-45' }), /"until" must be an ISO timestamp/);
+  await assert.rejects(history.query({ offset: -1 }), /^Error: "offset" must be a non-negative integer, got -1$/);
+  await assert.rejects(history.query({ limit: 2.5 }), /"limit" must be a non-negative integer/);
+  console.log('✓ status, source, code, writes, time range, limit and offset; bad filters rejected\n');
+
+  // Test 4: Fetching one run and replaying it
+  console.log('Test 4: Replaying a run...');
+  const saved = await history.get(updated.executionId);
+  assert.equal(saved?.code, update);
+  assert.equal(await history.get('no-such-run'), null);
+  mockClient.loadData({ entities: [{ type: 'entity', name: 'Task_003', entityType: 'Task', observations: ['status: open'] }], relations: [] });
+  const replayed = await run('execute_code', saved!.code, saved!.options as ExecutionOptions);
+  assert.deepEqual(replayed.output, ['updated 1']);
+  assert.deepEqual((await readGraph()).entities[0].observations, ['status: open', 'status: done']);
+  console.log('✓ Replayed the recorded code against the current graph\n');
+
+  // Test 5: Concurrent appends and damaged lines
+  console.log('Test 5: Concurrent appends and damaged lines...');
+  await Promise.all(Array.from({ length: 10 }, (_, i) => run('execute_code', `console.log(${i});`)));
+  await appendFile(history.file, '{"executionId": "trunc');
+  const lines = (await readFile(history.file, 'utf-8')).trim().split('\n');
+  assert.equal(lines.length, 16);
+  assert.equal((await history.query({ limit: 100 })).total, 15);
+  assert.deepEqual(await new ExecutionHistory(path.join(dir, 'missing.jsonl')).query(), { records: [], total: 0 });
+  console.log('✓ 15 whole records read back; the partial line is skipped\n');
+
+  await rm(dir, { recursive: true, force: true });
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
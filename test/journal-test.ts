@@ -0,0 +1,162 @@
+/**
+ * Test: Mutation Journal and Undo
+ *
+ * Journals the memory writes of several executions, undoes them, and
+ * checks that changes made after a run are reported as conflicts instead
+ * of being overwritten.
+ */
+
+import assert from 'node:assert/strict';
+import { executeCode } from '../executor/index.js';
+import {
+  setMCPClient,
+  getMCPClient,
+  MockMCPClient,
+  MutationJournal,
+  readGraph,
+  summarizeGraphDiff,
+  type Graph,
+} from '../servers/memory/index.js';
+
+function testGraph(): Graph {
+  return {
+    entities: ['001', '002', '003'].map((id, i) => ({
+      name: `Record_${id}`,
+      entityType: 'TestRecord',
+      observations: [i === 2 ? 'status: inactive' : 'status: active'],
+    })),
+    relations: [{ from: 'Record_001', to: 'Record_003', relationType: 'depends_on' }],
+  };
+}
+
+async function runTest() {
+  console.log('=== Mutation Journal Test ===\n');
+
+  const mockClient = new MockMCPClient();
+  mockClient.loadData(testGraph());
+  setMCPClient(mockClient);
+  const journal = new MutationJournal();
+
+  // Test 1: Writes are journaled under the execution ID
+  console.log('Test 1: Journaling a batch...');
+  const batch = await executeCode(`
+    const { entities } = await memory.searchNodes('inactive');
+    await memory.deleteEntities(entities.map(e => e.name));
+    await memory.addObservations([{ entityName: 'Record_001', contents: ['processed: true'] }]);
+    await memory.deleteObservations([{ entityName: 'Record_002', observations: ['status: active'] }]);
+    await memory.createEntities([{ name: 'Report', entityType: 'Report', observations: ['rows: 2'] }]);
+    await memory.createRelations([{ from: 'Report', to: 'Record_001', relationType: 'covers' }]);
+  `, { journal });
+  assert.equal(batch.status, 'success', batch.error);
+  const entries = journal.entries(batch.executionId);
+  assert.deepEqual(entries.map(e => e.toolName), [
+    'delete_entities',
+    'add_observations',
+    'delete_observations',
+    'create_entities',
+    'create_relations',
+  ]);
+  assert.deepEqual(entries[0].diff.deletedEntities, [
+    { name: 'Record_003', entityType: 'TestRecord', observations: ['status: inactive'] },
+  ]);
+  assert.deepEqual(entries[0].diff.deletedRelations, [{ from: 'Record_001', to: 'Record_003', relationType: 'depends_on' }]);
+  console.log(`✓ ${entries.length} entries for ${batch.executionId}\n`);
+
+  // Test 2: Undo restores the graph
+  console.log('Test 2: Undoing the batch...');
+  const report = await journal.undo(batch.executionId, getMCPClient());
+  assert.deepEqual(report.conflicts, []);
+  const restored = await readGraph();
+  assert.deepEqual(
+    restored.entities.map(e => [e.name, e.observations]).sort(),
+    testGraph().entities.map(e => [e.name, e.observations]).sort()
+  );
+  assert.deepEqual(restored.relations, testGraph().relations);
+  assert.deepEqual(journal.entries(batch.executionId), []);
+  await assert.rejects(journal.undo(batch.executionId, getMCPClient()), /No journaled changes/);
+  console.log(`✓ Reverted: ${summarizeGraphDiff(report.reverted)}\n`);
+
+  // Test 3: A run that fails halfway can be undone
+  console.log('Test 3: Undoing a run that failed halfway...');
+  const failed = await executeCode(`
+    for (const name of ['Record_001', 'Record_002', 'Record_003']) {
+      if (name === 'Record_003') throw new Error('stopped at ' + name);
+      await memory.addObservations([{ entityName: name, contents: ['batch: 7'] }]);
+    }
+  `, { journal, isolation: 'worker' });
+  assert.equal(failed.status, 'error');
+  assert.equal(journal.entries(failed.executionId).length, 2);
+  await journal.undo(failed.executionId, getMCPClient());
+  assert.ok((await readGraph()).entities.every(e => !e.observations.includes('batch: 7')));
+  console.log(`✓ Partial writes reverted after "${failed.error}"\n`);
+
+  // Test 4: Later changes are reported as conflicts, not overwritten
+  console.log('Test 4: Undoing with conflicting later changes...');
+  const first = await executeCode(`
+    await memory.createEntities([{ name: 'Draft', entityType: 'Note', observations: [] }]);
+    await memory.addObservations([{ entityName: 'Record_001', contents: ['reviewed: yes'] }]);
+    await memory.deleteObservations([{ entityName: 'Record_002', observations: ['status: active'] }]);
+  `, { journal });
+  const second = await executeCode(`
+    await memory.addObservations([{ entityName: 'Draft', contents: ['keep me'] }]);
+    await memory.deleteObservations([{ entityName: 'Record_001', observations: ['reviewed: yes'] }]);
+    await memory.addObservations([{ entityName: 'Record_002', contents: ['status: active'] }]);
+  `, { journal });
+  assert.equal(second.status, 'success', second.error);
+  const conflicted = await journal.undo(first.executionId, getMCPClient());
+  assert.equal(conflicted.conflicts.length, 3);
+  assert.ok(conflicted.conflicts.some(c => /observation "status: active" on Record_002 was added again later/.test(c)));
+  assert.ok(conflicted.conflicts.some(c => /entity Draft was changed later/.test(c)));
+  assert.ok(conflicted.conflicts.some(c => /observation "reviewed: yes" on Record_001 no longer exists/.test(c)));
+  const afterConflict = await readGraph();
+  const draft = afterConflict.entities.find(e => e.name === 'Draft');
+  assert.deepEqual(draft?.observations, ['keep me']);
+  console.log(`✓ ${conflicted.conflicts.length} conflicts reported:`);
+  for (const conflict of conflicted.conflicts) console.log(`  ${conflict}`);
+  console.log();
+
+  // Test 5: Reads and dry runs are not journaled
+  console.log('Test 5: Reads and dry runs...');
+  const reads = await executeCode('await memory.readGraph(); await memory.openNodes(["Record_001"]);', { journal });
+  const dry = await executeCode('await memory.deleteEntities(["Record_001"]);', { journal, dryRun: true });
+  assert.deepEqual(journal.entries(reads.executionId), []);
+  assert.deepEqual(journal.entries(dry.executionId), []);
+  assert.ok(!journal.executionIds().includes(dry.executionId));
+  console.log('✓ Nothing journaled\n');
+
+  // Test 6: Only the entities a write names are read
+  console.log('Test 6: Reads made by the journal...');
+  const seen: string[] = [];
+  setMCPClient({
+    async callTool<T>(toolName: string, params: Record<string, unknown>): Promise<T> {
+      seen.push(toolName === 'open_nodes' ? `open_nodes ${(params.names as string[]).join(',')}` : toolName);
+      return mockClient.callTool<T>(toolName, params);
+    },
+  });
+  const targeted = await executeCode(`
+    await memory.addObservations([{ entityName: 'Record_001', contents: ['audited: true'] }]);
+    await memory.deleteRelations([{ from: 'Record_001', to: 'Record_003', relationType: 'depends_on' }]);
+  `, { journal, trace: false });
+  setMCPClient(mockClient);
+  assert.deepEqual(seen, [
+    'open_nodes Record_001',
+    'add_observations',
+    'open_nodes Record_001',
+    'open_nodes Record_001,Record_003',
+    'delete_relations',
+    'open_nodes Record_001,Record_003',
+  ]);
+  const [added, removed] = journal.entries(targeted.executionId);
+  assert.deepEqual(added.diff.addedObservations, [{ entityName: 'Record_001', contents: ['audited: true'] }]);
+  assert.deepEqual(removed.diff.deletedRelations, [{ from: 'Record_001', to: 'Record_003', relationType: 'depends_on' }]);
+  await journal.undo(targeted.executionId, getMCPClient());
+  assert.deepEqual((await readGraph()).relations, testGraph().relations);
+  console.log('✓ Two open_nodes calls per write, no read_graph\n');
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,100 @@
+/**
+ * Test: JSONL File-Backed Memory Client
+ *
+ * Loads a copy of code-mode-memory.jsonl, mutates it through the memory
+ * wrappers, and checks that a fresh client sees the changes.
+ */
+
+import assert from 'node:assert/strict';
+import { copyFile, mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  setMCPClient,
+  JsonlMCPClient,
+  readGraph,
+  createEntities,
+  createRelations,
+  addObservations,
+  deleteEntities,
+  openNodes,
+  saveGraphFile,
+  loadGraphFile,
+} from '../servers/memory/index.js';
+
+const sampleFile = fileURLToPath(new URL('../../code-mode-memory.jsonl', import.meta.url));
+
+async function runTest() {
+  console.log('=== JSONL Memory Client Test ===\n');
+
+  const dir = await mkdtemp(path.join(tmpdir(), 'code-mode-jsonl-'));
+  const filePath = path.join(dir, 'memory.jsonl');
+  await copyFile(sampleFile, filePath);
+
+  try {
+    // Test 1: Load the shipped sample data
+    console.log('Test 1: Loading code-mode-memory.jsonl...');
+    setMCPClient(new JsonlMCPClient(filePath));
+    const graph = await readGraph();
+    assert.equal(graph.entities.length, 51);
+    console.log(`✓ Loaded ${graph.entities.length} entities\n`);
+
+    // Test 2: Mutations are written back
+    console.log('Test 2: Mutating and reopening...');
+    await createEntities([{ name: 'Server_001', entityType: 'Server', observations: ['status: active'] }]);
+    await createRelations([{ from: 'Server_001', to: 'Record_001', relationType: 'hosts' }]);
+    await addObservations([{ entityName: 'Record_001', contents: ['processed: true'] }]);
+    await deleteEntities(['Record_050']);
+
+    setMCPClient(new JsonlMCPClient(filePath));
+    const reopened = await readGraph();
+    assert.equal(reopened.entities.length, 51);
+    assert.deepEqual(reopened.relations, [
+      { from: 'Server_001', to: 'Record_001', relationType: 'hosts' },
+    ]);
+    const record = await openNodes(['Record_001']);
+    assert.ok(record.entities[0]?.observations.includes('processed: true'));
+    console.log('✓ Changes survived a new client\n');
+
+    // Test 3: File stays in server-memory line format, no temp files left
+    console.log('Test 3: Checking file format...');
+    const lines = (await readFile(filePath, 'utf-8')).split('\n');
+    assert.equal(lines.length, 52);
+    assert.deepEqual(JSON.parse(lines[lines.length - 1]), {
+      type: 'relation',
+      from: 'Server_001',
+      to: 'Record_001',
+      relationType: 'hosts',
+    });
+    assert.deepEqual(await readdir(dir), ['memory.jsonl']);
+    console.log(`✓ ${lines.length} lines, no temp files\n`);
+
+    // Test 4: Missing file starts empty
+    console.log('Test 4: Opening a missing file...');
+    setMCPClient(new JsonlMCPClient(path.join(dir, 'missing.jsonl')));
+    assert.equal((await readGraph()).entities.length, 0);
+    console.log('✓ Empty graph\n');
+
+    // Test 5: Overlapping writes of one file
+    console.log('Test 5: Saving the same file concurrently...');
+    const racing = path.join(dir, 'racing.jsonl');
+    const versions = Array.from({ length: 5 }, (_, i) => ({
+      entities: [{ name: `Version_${i}`, entityType: 'Version', observations: ['x'.repeat(100000)] }],
+      relations: [],
+    }));
+    await Promise.all(versions.map(version => saveGraphFile(racing, version)));
+    assert.match((await loadGraphFile(racing)).entities[0].name, /^Version_\d$/);
+    assert.deepEqual((await readdir(dir)).sort(), ['memory.jsonl', 'racing.jsonl']);
+    console.log('✓ Every write completed, one whole version kept\n');
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
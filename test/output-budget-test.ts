@@ -0,0 +1,96 @@
+/**
+ * Test: Output Budget
+ *
+ * Logs values of different sizes against small output budgets and checks
+ * that large values are summarized, long output is cut, and the dropped
+ * amount is reported.
+ */
+
+import assert from 'node:assert/strict';
+import { executeCode } from '../executor/index.js';
+import { setMCPClient, MockMCPClient, type EntityWithType } from '../servers/memory/index.js';
+
+async function runTest() {
+  console.log('=== Output Budget Test ===\n');
+
+  const entities: EntityWithType[] = Array.from({ length: 5000 }, (_, i) => ({
+    type: 'entity',
+    name: `Record_${String(i + 1).padStart(4, '0')}`,
+    entityType: 'TestRecord',
+    observations: ['status: active', `index: ${i}`],
+  }));
+  const mockClient = new MockMCPClient();
+  mockClient.loadData({ entities, relations: [] });
+  setMCPClient(mockClient);
+
+  // Test 1: Small values are printed in full
+  console.log('Test 1: Output within the budget...');
+  const small = await executeCode(`
+    const { entities } = await memory.openNodes(['Record_0001']);
+    console.log(entities[0].observations);
+    console.log('count:', 1);
+  `);
+  assert.equal(small.status, 'success', small.error);
+  assert.deepEqual(small.output, ['[\n  "status: active",\n  "index: 0"\n]', 'count: 1']);
+  assert.equal(small.droppedOutput, undefined);
+  console.log('✓ Printed in full, nothing dropped\n');
+
+  // Test 2: A large graph is summarized instead of printed
+  console.log('Test 2: Logging a 5,000 entity graph...');
+  const large = await executeCode('console.log(await memory.readGraph());', { maxOutputChars: 2000, maxOutputLines: 60 });
+  assert.equal(large.status, 'success', large.error);
+  assert.equal(large.output.length, 1);
+  const [summary] = large.output;
+  assert.ok(summary.length <= 2000 && summary.split('\n').length <= 60, summary);
+  assert.match(summary, /"Record_0001"/);
+  assert.match(summary, /…and 4,99\d more/);
+  assert.ok(large.droppedOutput && large.droppedOutput.chars > 500000 && large.droppedOutput.lines > 20000);
+  console.log(`✓ ${summary.split('\n').length} lines kept, ${large.droppedOutput.lines.toLocaleString('en-US')} dropped\n`);
+
+  // Test 3: Deep and wide objects are cut by depth and key count
+  console.log('Test 3: Depth and key limits...');
+  const nested = await executeCode(`
+    const deep = { a: { b: { c: { d: { e: { f: { g: 'bottom'.repeat(200) } } } } } } };
+    const wide = Object.fromEntries(Array.from({ length: 40 }, (_, i) => ['key' + i, 'x'.repeat(20)]));
+    const cycle = { name: 'loop' };
+    cycle.self = cycle;
+    console.log(deep);
+    console.log(wide);
+    console.log(cycle);
+  `, { maxOutputChars: 700 });
+  assert.equal(nested.status, 'success', nested.error);
+  assert.ok(!nested.output[0].includes('bottom'));
+  assert.match(nested.output[0], /\[Object with 1 key\]/);
+  assert.match(nested.output[1], /"…": "and \d+ more keys"/);
+  assert.match(nested.output[2], /"self": "\[Circular\]"/);
+  console.log(`✓ Deep value printed as:\n${nested.output[0]}\n`);
+
+  // Test 4: Lines beyond the budget are dropped
+  console.log('Test 4: Many short lines...');
+  const chatty = await executeCode(`
+    for (let i = 0; i < 1000; i++) console.log('line ' + i);
+    console.log('x'.repeat(50));
+  `, { maxOutputLines: 10 });
+  assert.deepEqual(chatty.output, Array.from({ length: 10 }, (_, i) => `line ${i}`));
+  // 'line 10' to 'line 99', 'line 100' to 'line 999', and the 50 x's
+  assert.deepEqual(chatty.droppedOutput, { lines: 991, chars: 90 * 7 + 900 * 8 + 50 });
+  console.log(`✓ Kept 10 lines, dropped ${chatty.droppedOutput?.lines}\n`);
+
+  // Test 5: A long line is cut, in a worker too
+  console.log('Test 5: Cutting a long line in a worker...');
+  const long = await executeCode(`console.log('y'.repeat(500)); console.log('after');`, {
+    maxOutputChars: 100,
+    isolation: 'worker',
+  });
+  assert.equal(long.status, 'success', long.error);
+  assert.deepEqual(long.output, ['y'.repeat(100) + '…']);
+  assert.deepEqual(long.droppedOutput, { chars: 400 + 'after'.length, lines: 1 });
+  console.log('✓ Line cut at 100 characters, later output dropped\n');
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
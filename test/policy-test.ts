@@ -0,0 +1,168 @@
+/**
+ * Test: Memory Access Policy
+ *
+ * Runs agent code under different policies and checks that violating
+ * calls fail the run with a policy error and leave the backend unchanged.
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { executeCode } from '../executor/index.js';
+import {
+  setMCPClient,
+  getMCPClient,
+  MockMCPClient,
+  MutationJournal,
+  PolicyMCPClient,
+  PolicyError,
+  parsePolicy,
+  loadPolicy,
+  readGraph,
+  type Graph,
+} from '../servers/memory/index.js';
+
+function testGraph(): Graph {
+  return {
+    entities: [
+      ...['001', '002', '003'].map(id => ({
+        name: `Task_${id}`,
+        entityType: 'Task',
+        observations: ['status: open'],
+      })),
+      { name: 'Customer_001', entityType: 'Customer', observations: ['tier: gold'] },
+    ],
+    relations: [],
+  };
+}
+
+async function runTest() {
+  console.log('=== Memory Access Policy Test ===\n');
+
+  const mockClient = new MockMCPClient();
+  const reset = () => mockClient.loadData(testGraph());
+  reset();
+  setMCPClient(mockClient);
+
+  // Test 1: Parsing policy files
+  console.log('Test 1: Loading and validating policies...');
+  const dir = await mkdtemp(path.join(tmpdir(), 'policy-test-'));
+  const file = path.join(dir, 'policy.json');
+  await writeFile(file, JSON.stringify({ deny: ['deleteEntities'], maxCreatedEntities: 2 }));
+  assert.deepEqual(await loadPolicy(file), { deny: ['deleteEntities'], maxCreatedEntities: 2 });
+  await writeFile(file, JSON.stringify({ deny: ['dropEverything'] }));
+  await assert.rejects(loadPolicy(file), /Invalid policy in .*: Unknown memory method in "deny": dropEverything/);
+  assert.throws(() => parsePolicy({ readonly: true }), /Unknown policy setting: readonly/);
+  assert.throws(() => parsePolicy({ maxDeletedEntities: -1 }), /non-negative integer/);
+  assert.throws(() => parsePolicy([]), /must be a JSON object/);
+  await rm(dir, { recursive: true, force: true });
+  console.log('✓ Typos and bad values rejected\n');
+
+  // Test 2: Allow and deny lists
+  console.log('Test 2: Denied methods...');
+  const denied = await executeCode(`
+    console.log((await memory.openNodes(['Task_001'])).entities.length);
+    try {
+      await memory.deleteEntities(['Task_001']);
+    } catch (error) {
+      console.log('caught', error.name, error.code);
+    }
+    await memory.addObservations([{ entityName: 'Task_002', contents: ['after: violation'] }]);
+  `, { policy: { deny: ['deleteEntities'] } });
+  assert.equal(denied.status, 'error');
+  assert.equal(denied.error, 'Policy violation: memory.deleteEntities is not allowed');
+  assert.deepEqual(denied.output, ['1', 'caught PolicyError POLICY_VIOLATION']);
+  assert.deepEqual(await readGraph(), testGraph());
+  const allowed = await executeCode('await memory.readGraph(); await memory.searchNodes("open");', {
+    policy: { allow: ['searchNodes'] },
+  });
+  assert.equal(allowed.error, 'Policy violation: memory.readGraph is not allowed');
+  console.log(`✓ ${denied.error}; later calls blocked even after catching it\n`);
+
+  // Test 3: Read-only mode
+  console.log('Test 3: Read-only mode...');
+  const readOnly = await executeCode(`
+    const { entities } = await memory.searchNodes('open');
+    await memory.addObservations(entities.map(e => ({ entityName: e.name, contents: ['seen: true'] })));
+  `, { policy: { readOnly: true }, isolation: 'worker' });
+  assert.equal(readOnly.error, 'Policy violation: memory is read-only, memory.addObservations is not allowed');
+  assert.deepEqual(await readGraph(), testGraph());
+  console.log(`✓ ${readOnly.error}\n`);
+
+  // Test 4: Creation and deletion caps
+  console.log('Test 4: Caps per run...');
+  const capped = await executeCode(`
+    await memory.createEntities([{ name: 'Task_004', entityType: 'Task', observations: [] }]);
+    await memory.createEntities([
+      { name: 'Task_005', entityType: 'Task', observations: [] },
+      { name: 'Task_006', entityType: 'Task', observations: [] },
+    ]);
+  `, { policy: { maxCreatedEntities: 2 } });
+  assert.equal(
+    capped.error,
+    'Policy violation: creating 2 more entities would exceed the limit of 2 per run (1 created so far)'
+  );
+  assert.deepEqual(await readGraph(), testGraph());
+  const deletions = await executeCode(`
+    for (const name of ['Task_001', 'Task_002', 'Task_003']) await memory.deleteEntities([name]);
+  `, { policy: { maxDeletedEntities: 2 } });
+  assert.match(deletions.error!, /deleting 1 more entity would exceed the limit of 2 per run \(2 deleted so far\)/);
+  assert.deepEqual(await readGraph(), testGraph());
+  const withinCap = await executeCode(`
+    await memory.createEntities([{ name: 'Task_004', entityType: 'Task', observations: [] }]);
+  `, { policy: { maxCreatedEntities: 2 } });
+  assert.equal(withinCap.status, 'success');
+  assert.deepEqual((await readGraph()).entities.map(e => e.name), ['Task_001', 'Task_002', 'Task_003', 'Customer_001', 'Task_004']);
+  reset();
+  console.log(`✓ ${capped.error}; writes before it not applied\n`);
+
+  // Test 5: Writable entity types
+  console.log('Test 5: Writable entity types...');
+  const policy = { writableEntityTypes: ['Task'] };
+  const typed = await executeCode(`
+    await memory.addObservations([{ entityName: 'Task_001', contents: ['status: done'] }]);
+    await memory.createRelations([{ from: 'Task_001', to: 'Customer_001', relationType: 'for' }]);
+  `, { policy });
+  assert.equal(
+    typed.error,
+    'Policy violation: memory.createRelations would change entities of types that are not writable: Customer (Customer_001)'
+  );
+  assert.deepEqual((await readGraph()).relations, []);
+  const replaced = await executeCode(`
+    await memory.createEntities([{ name: 'Customer_001', entityType: 'Task', observations: [] }]);
+  `, { policy });
+  assert.match(replaced.error!, /not writable: Customer \(Customer_001\)$/);
+  assert.equal((await readGraph()).entities.find(e => e.name === 'Customer_001')?.entityType, 'Customer');
+  reset();
+  console.log(`✓ ${typed.error}\n`);
+
+  // Test 6: Violating runs are not journaled, dry runs are checked too
+  console.log('Test 6: Journal and dry runs...');
+  const journal = new MutationJournal();
+  const journaled = await executeCode(`
+    await memory.addObservations([{ entityName: 'Task_001', contents: ['status: done'] }]);
+    await memory.deleteEntities(['Task_002']);
+  `, { policy: { deny: ['deleteEntities'] }, journal });
+  assert.deepEqual(journal.entries(journaled.executionId), []);
+  assert.deepEqual(await readGraph(), testGraph());
+  const committed = await executeCode(`
+    await memory.addObservations([{ entityName: 'Task_001', contents: ['status: done'] }]);
+  `, { policy: { deny: ['deleteEntities'] }, journal });
+  assert.deepEqual(journal.entries(committed.executionId).map(e => e.toolName), ['add_observations']);
+  await journal.undo(committed.executionId, getMCPClient());
+  const dry = await executeCode('await memory.deleteEntities(["Task_001"]);', { policy: { readOnly: true }, dryRun: true });
+  assert.equal(dry.status, 'error');
+  assert.equal(dry.diff?.deletedEntities.length, 0);
+  const direct = new PolicyMCPClient(mockClient, { readOnly: true });
+  await assert.rejects(direct.callTool('delete_entities', { entityNames: ['Task_001'] }), PolicyError);
+  assert.deepEqual(await readGraph(), testGraph());
+  console.log('✓ Violating run journaled nothing, a successful one can be undone; dry run reported the violation\n');
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
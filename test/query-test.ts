@@ -0,0 +1,166 @@
+/**
+ * Test: Structured Queries
+ *
+ * Runs queryNodes against the 50 experiment records: exact field matches,
+ * boolean logic, regular expressions, sorting and paging, syntax errors,
+ * and the host-side fallback for servers without query_nodes.
+ */
+
+import assert from 'node:assert/strict';
+import { executeCode } from '../executor/index.js';
+import {
+  setMCPClient,
+  MockMCPClient,
+  QueryingMCPClient,
+  QuerySyntaxError,
+  ValidationError,
+  queryNodes,
+  searchNodes,
+  type Graph,
+  type MCPClientInterface,
+} from '../servers/memory/index.js';
+
+function testGraph(): Graph {
+  const entities = Array.from({ length: 50 }, (_, index) => {
+    const i = index + 1;
+    return {
+      type: 'entity' as const,
+      name: `Record_${i.toString().padStart(3, '0')}`,
+      entityType: 'TestRecord',
+      observations: [`count: ${i % 7}`, i % 3 === 0 ? 'status: inactive' : 'status: active', `category: ${['A', 'B', 'C'][i % 3]}`],
+    };
+  });
+  entities.push({ type: 'entity', name: 'Team Alpha', entityType: 'Team', observations: ['note: on call', 'lead: Record_001'] });
+  return {
+    entities,
+    relations: [
+      { type: 'relation', from: 'Team Alpha', to: 'Record_001', relationType: 'includes' },
+      { type: 'relation', from: 'Team Alpha', to: 'Record_003', relationType: 'includes' },
+    ],
+  };
+}
+
+const names = (result: { entities: Array<{ name: string }> }) => result.entities.map(e => e.name);
+
+async function runTest() {
+  console.log('=== Structured Query Test ===\n');
+
+  const mockClient = new MockMCPClient();
+  mockClient.loadData(testGraph());
+  setMCPClient(mockClient);
+
+  // Test 1: Exact matches, unlike searchNodes
+  console.log('Test 1: status = active...');
+  const substring = await searchNodes('active');
+  const active = await queryNodes('status = active');
+  assert.equal(substring.entities.length, 50);
+  assert.equal(active.total, 34);
+  assert.ok(active.entities.every(e => e.observations.includes('status: active')));
+  assert.equal((await queryNodes('status = Active')).total, 0);
+  console.log(`✓ searchNodes('active') finds ${substring.entities.length}, the query finds ${active.total}\n`);
+
+  // Test 2: Boolean logic and operators
+  console.log('Test 2: Operators...');
+  assert.equal((await queryNodes('entityType = TestRecord AND category in (A, B)')).total, 33);
+  assert.equal((await queryNodes('category = A OR category = B')).total, 33);
+  assert.equal((await queryNodes('NOT category in (A,B)')).total, 18);
+  assert.equal((await queryNodes('status != active')).total, 17);
+  assert.equal((await queryNodes('status = active AND (count = 0 OR count > 5)')).total, 9);
+  assert.equal((await queryNodes('count >= 6 and not status = inactive')).total, 4);
+  assert.deepEqual(names(await queryNodes('name ~ /^record_00[1-3]$/i')), ['Record_001', 'Record_002', 'Record_003']);
+  assert.equal((await queryNodes('name !~ "^Record_"')).total, 1);
+  assert.deepEqual(names(await queryNodes('note = "on call"')), ['Team Alpha']);
+  assert.deepEqual(names(await queryNodes("observation ~ 'lead: Record_0+1'")), ['Team Alpha']);
+  assert.deepEqual(names(await queryNodes('lead exists AND NOT status exists')), ['Team Alpha']);
+  assert.equal((await queryNodes('')).total, 51);
+  console.log('✓ AND, OR, NOT, in, =, !=, ~, !~, <, >, exists\n');
+
+  // Test 3: Sorting and paging
+  console.log('Test 3: Sorting and paging...');
+  const page = await queryNodes('status = active', { sort: ['-count', 'name'], limit: 3, offset: 2 });
+  assert.equal(page.total, 34);
+  assert.deepEqual(names(page), ['Record_034', 'Record_041', 'Record_005']);
+  assert.deepEqual(names(await queryNodes('', { sort: ['lead'], limit: 1 })), ['Team Alpha']);
+  assert.deepEqual(names(await queryNodes('name ~ "^Record_00[1-3]$" OR entityType = Team', { sort: ['-name'] })), [
+    'Team Alpha',
+    'Record_003',
+    'Record_002',
+    'Record_001',
+  ]);
+  await assert.rejects(queryNodes('', { limit: -1 }), /"limit" must be a non-negative integer/);
+  await assert.rejects(queryNodes('name = zzz', { query: 'name = Record_001' } as never), /Unknown option "query"/);
+  console.log(`✓ ${names(page).join(', ')} of ${page.total}\n`);
+
+  // Test 4: Relations with either end among the returned entities
+  console.log('Test 4: Relations...');
+  const team = await queryNodes('name in ("Team Alpha", Record_001, Record_002)');
+  assert.deepEqual(team.relations.map(r => r.to), ['Record_001', 'Record_003']);
+  const record = await queryNodes('name = Record_003');
+  assert.deepEqual(record.relations.map(r => r.from), ['Team Alpha']);
+  console.log('✓ Relations of the returned entities, as with openNodes\n');
+
+  // Test 5: Syntax errors
+  console.log('Test 5: Syntax errors...');
+  const invalid: Array<[string, RegExp]> = [
+    ['status =', /position 9: expected a value, found end of query/],
+    ['status active', /position 8: expected an operator after "status", found "active"/],
+    ['(status = active', /expected "\)", found end of query/],
+    ['status = active category = A', /unexpected "category"/],
+    ['name ~ /a(/', /position 8: Invalid regular expression/],
+    ['name ~ /[a/]', /position 8: unterminated regular expression/],
+    ['note = "on call', /position 8: unterminated string/],
+  ];
+  for (const [query, message] of invalid) {
+    await assert.rejects(queryNodes(query), (error: unknown) => {
+      assert.ok(error instanceof QuerySyntaxError);
+      assert.equal(error.code, 'INVALID_QUERY');
+      assert.match(error.message, message);
+      return true;
+    });
+  }
+  console.log(`✓ ${invalid.length} malformed queries rejected`);
+
+  // A pattern that backtracks without end fails instead of stalling the server
+  await mockClient.callTool('create_entities', {
+    entities: [{ name: 'a'.repeat(40) + '!', entityType: 'Probe', observations: [] }],
+  });
+  const started = Date.now();
+  await assert.rejects(queryNodes('name ~ /^(a+)+$/'), (error: unknown) => {
+    assert.ok(error instanceof ValidationError);
+    assert.match(error.message, /^Query took longer than 1000ms/);
+    return true;
+  });
+  assert.ok(Date.now() - started < 5000);
+  await mockClient.callTool('delete_entities', { entityNames: ['a'.repeat(40) + '!'] });
+  console.log(`✓ Runaway pattern stopped after ${Date.now() - started}ms\n`);
+
+  // Test 6: Servers without query_nodes; only the page reaches agent code
+  console.log('Test 6: Host-side fallback...');
+  const calls: string[] = [];
+  const reference: MCPClientInterface = {
+    async callTool<T>(toolName: string, params: Record<string, unknown>) {
+      calls.push(toolName);
+      if (toolName === 'query_nodes') throw new Error('Unknown tool: query_nodes');
+      return mockClient.callTool<T>(toolName, params);
+    },
+  };
+  setMCPClient(new QueryingMCPClient(reference));
+  const result = await executeCode(`
+    const { entities, total } = await memory.queryNodes('status = inactive AND category = A', { limit: 2 });
+    try { await memory.queryNodes('count >'); } catch (error) { console.log(error.name, error.code); }
+    return { names: entities.map(e => e.name), total };
+  `);
+  assert.equal(result.status, 'success', result.error);
+  assert.deepEqual(result.returnValue, { names: ['Record_003', 'Record_006'], total: 16 });
+  assert.deepEqual(result.output, ['QuerySyntaxError INVALID_QUERY']);
+  assert.deepEqual(calls, ['read_graph', 'read_graph']);
+  assert.ok(result.calls![0].resultSize! < 1000);
+  console.log(`✓ ${result.calls![0].resultSize} chars returned to the sandbox\n`);
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,117 @@
+/**
+ * Test: Multi-Server Client Registry
+ *
+ * Registers clients for several namespaces and checks that one sandbox
+ * script can combine them, with each call routed to its own server.
+ */
+
+import assert from 'node:assert/strict';
+import { executeCode, mountNamespace, unmountNamespace } from '../executor/index.js';
+import {
+  setMCPClient,
+  getMCPClient,
+  registerMCPClient,
+  unregisterMCPClient,
+  getRegisteredMCPClient,
+  listMCPNamespaces,
+  callNamespacedTool,
+  MockMCPClient,
+  type MCPClientInterface,
+} from '../servers/memory/index.js';
+
+/**
+ * Minimal ticket server that records the calls it receives
+ */
+class TicketClient implements MCPClientInterface {
+  readonly calls: Array<{ toolName: string; params: Record<string, unknown> }> = [];
+
+  async callTool<T>(toolName: string, params: Record<string, unknown>): Promise<T> {
+    this.calls.push({ toolName, params });
+    if (toolName !== 'create_ticket') throw new Error(`Unknown tool: ${toolName}`);
+    return { id: `T-${this.calls.length}`, title: params.title } as T;
+  }
+}
+
+async function runTest() {
+  console.log('=== Client Registry Test ===\n');
+
+  const memoryClient = new MockMCPClient();
+  memoryClient.loadData({
+    entities: [
+      { type: 'entity', name: 'Record_001', entityType: 'TestRecord', observations: ['status: inactive'] },
+      { type: 'entity', name: 'Record_002', entityType: 'TestRecord', observations: ['status: active'] },
+    ],
+    relations: [],
+  });
+  const archiveClient = new MockMCPClient();
+  const ticketClient = new TicketClient();
+
+  setMCPClient(memoryClient);
+  registerMCPClient('archive', archiveClient);
+  registerMCPClient('tickets', ticketClient);
+
+  try {
+    // Test 1: Lookup and routing
+    console.log('Test 1: Routing by namespace...');
+    assert.equal(getMCPClient(), memoryClient);
+    assert.equal(getRegisteredMCPClient('memory'), memoryClient);
+    assert.deepEqual(listMCPNamespaces().sort(), ['archive', 'memory', 'tickets']);
+    await callNamespacedTool('archive', 'create_entities', {
+      entities: [{ name: 'Archived_000', entityType: 'Archive', observations: [] }],
+    });
+    assert.equal((await archiveClient.callTool<{ entities: unknown[] }>('read_graph', {})).entities.length, 1);
+    assert.equal((await memoryClient.callTool<{ entities: unknown[] }>('read_graph', {})).entities.length, 2);
+    assert.throws(() => getRegisteredMCPClient('missing'), /No MCP client registered for "missing"/);
+    console.log(`✓ Namespaces: ${listMCPNamespaces().join(', ')}\n`);
+
+    // Test 2: One script composes several servers
+    console.log('Test 2: Composing servers in one script...');
+    mountNamespace('tickets', {
+      createTicket: (title: string) => callNamespacedTool('tickets', 'create_ticket', { title }),
+    });
+    const result = await executeCode(`
+      const { entities } = await memory.searchNodes('inactive');
+      for (const entity of entities) {
+        await archive.callTool('create_entities', { entities: [entity] });
+        const ticket = await tickets.createTicket('Review ' + entity.name);
+        console.log(ticket.id, ticket.title);
+      }
+      const archived = await archive.callTool('read_graph', {});
+      console.log(archived.entities.map(e => e.name).join(','));
+    `);
+    assert.equal(result.status, 'success', result.error);
+    assert.deepEqual(result.output, ['T-1 Review Record_001', 'Archived_000,Record_001']);
+    assert.deepEqual(ticketClient.calls, [{ toolName: 'create_ticket', params: { title: 'Review Record_001' } }]);
+    console.log(`✓ Output: ${result.output.join(' | ')}\n`);
+
+    // Test 3: The same routing works from a worker thread
+    console.log('Test 3: Composing servers from a worker...');
+    const workerResult = await executeCode(`
+      const graph = await archive.callTool('read_graph', {});
+      const ticket = await tickets.createTicket(graph.entities.length + ' archived');
+      console.log(ticket.id, ticket.title);
+    `, { isolation: 'worker' });
+    assert.equal(workerResult.status, 'success', workerResult.error);
+    assert.deepEqual(workerResult.output, ['T-2 2 archived']);
+    console.log(`✓ Output: ${workerResult.output.join(', ')}\n`);
+
+    // Test 4: Without wrappers a server falls back to callTool; its errors reach the script
+    console.log('Test 4: Generic callTool and errors...');
+    unmountNamespace('tickets');
+    const failed = await executeCode(`await tickets.callTool('close_ticket', { id: 'T-1' });`);
+    assert.equal(failed.status, 'error');
+    assert.match(failed.error ?? '', /Unknown tool: close_ticket/);
+    console.log(`✓ Error: ${failed.error}\n`);
+  } finally {
+    unmountNamespace('tickets');
+    unregisterMCPClient('archive');
+    unregisterMCPClient('tickets');
+  }
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,113 @@
+/**
+ * Test: Structured Return Values
+ *
+ * Returns values from agent code and checks how they are serialized:
+ * plain JSON, Maps and Sets, cycles, and values JSON cannot represent.
+ */
+
+import assert from 'node:assert/strict';
+import { executeCode } from '../executor/index.js';
+import { setMCPClient, MockMCPClient } from '../servers/memory/index.js';
+
+async function runTest() {
+  console.log('=== Structured Return Value Test ===\n');
+
+  const mockClient = new MockMCPClient();
+  mockClient.loadData({
+    entities: ['001', '002', '003'].map((id, i) => ({
+      type: 'entity' as const,
+      name: `Record_${id}`,
+      entityType: i === 2 ? 'Archive' : 'TestRecord',
+      observations: ['status: active'],
+    })),
+    relations: [],
+  });
+  setMCPClient(mockClient);
+
+  // Test 1: Plain JSON values
+  console.log('Test 1: Returning a summary object...');
+  const summary = await executeCode(`
+    const graph = await memory.readGraph();
+    console.log('Read', graph.entities.length, 'entities');
+    return { count: graph.entities.length, names: graph.entities.map(e => e.name), done: true };
+  `);
+  assert.equal(summary.status, 'success', summary.error);
+  assert.deepEqual(summary.output, ['Read 3 entities']);
+  assert.deepEqual(summary.returnValue, { count: 3, names: ['Record_001', 'Record_002', 'Record_003'], done: true });
+  const nothing = await executeCode('console.log("no return");');
+  assert.ok(!('returnValue' in nothing));
+  console.log(`✓ ${JSON.stringify(summary.returnValue)}\n`);
+
+  // Test 2: Maps, Sets and other non-JSON values
+  console.log('Test 2: Returning Maps and Sets...');
+  const collections = await executeCode(`
+    const graph = await memory.readGraph();
+    const byType = new Map();
+    for (const e of graph.entities) byType.set(e.entityType, (byType.get(e.entityType) ?? 0) + 1);
+    return {
+      byType,
+      types: new Set(graph.entities.map(e => e.entityType)),
+      byIndex: new Map([[1, 'one'], [2, 'two']]),
+      big: 2n ** 64n,
+      when: new Date(0),
+      skipped: undefined,
+      fn: () => 1,
+      failure: new TypeError('bad input'),
+    };
+  `);
+  assert.equal(collections.status, 'success', collections.error);
+  assert.deepEqual(collections.returnValue, {
+    byType: { TestRecord: 2, Archive: 1 },
+    types: ['TestRecord', 'Archive'],
+    byIndex: [[1, 'one'], [2, 'two']],
+    big: '18446744073709551616',
+    when: '1970-01-01T00:00:00.000Z',
+    failure: { name: 'TypeError', message: 'bad input' },
+  });
+  console.log(`✓ ${JSON.stringify(collections.returnValue)}\n`);
+
+  // Test 3: Cycles are marked, shared references are kept
+  console.log('Test 3: Returning circular structures...');
+  const circular = await executeCode(`
+    const shared = { id: 1 };
+    const node = { name: 'root', children: [shared, shared] };
+    node.self = node;
+    const set = new Set([node]);
+    return { node, set };
+  `);
+  assert.equal(circular.status, 'success', circular.error);
+  const root = { name: 'root', children: [{ id: 1 }, { id: 1 }], self: '[Circular]' };
+  assert.deepEqual(circular.returnValue, { node: root, set: [root] });
+  console.log('✓ Cycle replaced with "[Circular]"\n');
+
+  // Test 4: Primitives, worker isolation and sessions
+  console.log('Test 4: Primitives, worker isolation and sessions...');
+  assert.equal((await executeCode('return 42;')).returnValue, 42);
+  assert.equal((await executeCode('return "done";')).returnValue, 'done');
+  assert.equal((await executeCode('return null;')).returnValue, null);
+  const inWorker = await executeCode('return new Map([["a", new Set([1, 2])]]);', { isolation: 'worker' });
+  assert.deepEqual(inWorker.returnValue, { a: [1, 2] });
+  await executeCode('const total = 5;', { sessionId: 'return-test' });
+  assert.equal((await executeCode('return total * 2;', { sessionId: 'return-test' })).returnValue, 10);
+  console.log('✓ Same serialization in every mode\n');
+
+  // Test 5: Serialization failures fail the execution
+  console.log('Test 5: Unserializable values...');
+  const failing = await executeCode('return { get broken() { throw new Error("nope"); } };');
+  assert.equal(failing.status, 'error');
+  assert.equal(failing.error, 'Return value could not be serialized: nope');
+  const patched = await executeCode('JSON.stringify = () => { throw new Error("patched"); }; return [1];');
+  assert.deepEqual(patched.returnValue, [1]);
+  for (const isolation of ['vm', 'worker'] as const) {
+    const endless = await executeCode('return { get x() { while (true) {} } };', { isolation, timeoutMs: 200 });
+    assert.equal(endless.status, 'timeout', isolation);
+  }
+  console.log(`✓ ${failing.error}; an endless getter times out\n`);
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
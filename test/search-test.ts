@@ -0,0 +1,143 @@
+/**
+ * Test: Ranked Search
+ *
+ * Runs ranked searchNodes over a few hundred entities: BM25 ordering,
+ * top-k, prefix and fuzzy matching, scores and snippets, and the host-side
+ * fallback for servers without ranked search.
+ */
+
+import assert from 'node:assert/strict';
+import { executeCode } from '../executor/index.js';
+import {
+  setMCPClient,
+  MockMCPClient,
+  QueryingMCPClient,
+  searchNodes,
+  tokenize,
+  type Graph,
+  type MCPClientInterface,
+} from '../servers/memory/index.js';
+
+function testGraph(): Graph {
+  const services = ['billing', 'search', 'checkout', 'inventory', 'auth'];
+  const entities = Array.from({ length: 300 }, (_, i) => ({
+    type: 'entity' as const,
+    name: `Ticket_${(i + 1).toString().padStart(3, '0')}`,
+    entityType: 'Ticket',
+    observations: [
+      `service: ${services[i % services.length]}`,
+      i % 3 === 0 ? 'status: inactive' : 'status: active',
+      i % 50 === 0 ? 'summary: slow database queries during the nightly report' : `summary: routine check ${i}`,
+    ],
+  }));
+  entities.push(
+    {
+      type: 'entity',
+      name: 'Database Outage',
+      entityType: 'Incident',
+      observations: ['impact: checkout unavailable', 'cause: database failover did not complete'],
+    },
+    {
+      type: 'entity',
+      name: 'Postmortem_017',
+      entityType: 'Document',
+      observations: [
+        `notes: ${'Timeline of the response, who was paged and when the status page was updated. '.repeat(3)}` +
+          'The root cause was a database outage in the primary region.',
+      ],
+    }
+  );
+  return {
+    entities,
+    relations: [
+      { type: 'relation', from: 'Postmortem_017', to: 'Database Outage', relationType: 'describes' },
+      { type: 'relation', from: 'Database Outage', to: 'Ticket_001', relationType: 'caused' },
+    ],
+  };
+}
+
+async function runTest() {
+  console.log('=== Ranked Search Test ===\n');
+
+  const mockClient = new MockMCPClient();
+  mockClient.loadData(testGraph());
+  setMCPClient(mockClient);
+
+  // Test 1: BM25 ordering and top-k
+  console.log('Test 1: Ranking...');
+  assert.deepEqual(tokenize('Ticket_001: Database-Outage'), ['ticket', '001', 'database', 'outage']);
+  const ranked = await searchNodes('database outage', { ranked: true });
+  assert.equal(ranked.entities.length, 8);
+  assert.deepEqual(ranked.entities.slice(0, 2).map(e => e.name), ['Database Outage', 'Postmortem_017']);
+  assert.deepEqual(ranked.matches!.map(m => m.name), ranked.entities.map(e => e.name));
+  assert.ok(ranked.matches!.every((m, i) => i === 0 || ranked.matches![i - 1].score >= m.score));
+  assert.deepEqual(ranked.matches![0].terms, ['database', 'outage']);
+  assert.deepEqual(ranked.relations.map(r => r.relationType), ['describes', 'caused']);
+  const [top] = (await searchNodes('database outage', { ranked: true, limit: 1 })).relations.map(r => r.to);
+  assert.equal(top, 'Database Outage');
+  const top3 = await searchNodes('database outage', { ranked: true, limit: 3 });
+  assert.deepEqual(top3.entities.map(e => e.name), ranked.entities.slice(0, 3).map(e => e.name));
+  console.log(ranked.matches!.slice(0, 3).map(m => `  ${m.score.toFixed(3)} ${m.name}`).join('\n'));
+  console.log('✓ Name and type matches rank first\n');
+
+  // Test 2: Words, not substrings
+  console.log('Test 2: active vs inactive...');
+  const substring = await searchNodes('active');
+  const words = await searchNodes('active', { ranked: true, limit: 1000 });
+  assert.equal(substring.entities.length, 300);
+  assert.equal(words.entities.length, 200);
+  assert.equal(substring.matches, undefined);
+  console.log(`✓ Substring search finds ${substring.entities.length}, ranked search ${words.entities.length}\n`);
+
+  // Test 3: Prefix and fuzzy matching
+  console.log('Test 3: Prefix and fuzzy matching...');
+  assert.equal((await searchNodes('postmort', { ranked: true })).entities.length, 0);
+  const prefixed = await searchNodes('postmort', { ranked: true, prefix: true });
+  assert.deepEqual(prefixed.matches!.map(m => [m.name, m.terms]), [['Postmortem_017', ['postmortem']]]);
+  const typo = await searchNodes('databse outage', { ranked: true, fuzzy: 1 });
+  assert.equal(typo.entities[0].name, 'Database Outage');
+  assert.ok(typo.matches![0].score < ranked.matches![0].score);
+  assert.equal((await searchNodes('databse', { ranked: true })).entities.length, 0);
+  assert.equal((await searchNodes('ot', { ranked: true, fuzzy: 1 })).entities.length, 0);
+  await assert.rejects(searchNodes('x', { ranked: true, fuzzy: 3 }), /"fuzzy" must be 0, 1 or 2/);
+  await assert.rejects(searchNodes('zzz', { query: 'active' } as never), /Unknown option "query"/);
+  await assert.rejects(searchNodes('zzz', { query: 123 } as never), /Unknown option "query"/);
+  console.log(`✓ "databse" → ${typo.matches![0].terms.join(', ')} (score ${typo.matches![0].score})\n`);
+
+  // Test 4: Snippets
+  console.log('Test 4: Snippets...');
+  const incident = ranked.matches![0];
+  assert.deepEqual(incident.snippets, ['Database Outage', 'cause: database failover did not complete']);
+  const [longNote] = ranked.matches![1].snippets;
+  assert.ok(longNote.length <= 122);
+  assert.match(longNote, /^…/);
+  assert.match(longNote, /database outage/);
+  console.log(`✓ ${longNote}\n`);
+
+  // Test 5: Servers without ranked search
+  console.log('Test 5: Host-side fallback...');
+  const calls: Array<Record<string, unknown>> = [];
+  const reference: MCPClientInterface = {
+    async callTool<T>(toolName: string, params: Record<string, unknown>) {
+      calls.push({ toolName, ...params });
+      return mockClient.callTool<T>(toolName, toolName === 'search_nodes' ? { query: params.query } : params);
+    },
+  };
+  setMCPClient(new QueryingMCPClient(reference));
+  const result = await executeCode(`
+    const { matches } = await memory.searchNodes('nightly report', { ranked: true, limit: 2 });
+    const plain = await memory.searchNodes('Postmortem');
+    return { top: matches.map(m => m.name), plain: plain.entities.length };
+  `);
+  assert.equal(result.status, 'success', result.error);
+  assert.deepEqual(result.returnValue, { top: ['Ticket_001', 'Ticket_051'], plain: 1 });
+  assert.deepEqual(calls, [{ toolName: 'read_graph' }, { toolName: 'search_nodes', query: 'Postmortem' }]);
+  console.log('✓ Ranked on the host, plain search passed through\n');
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,116 @@
+/**
+ * Test: Reusable Skills
+ *
+ * Saves a batch routine as a skill, reloads it from disk and runs it
+ * against the mock client with different arguments.
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { SkillLibrary, formatSkillSignature } from '../executor/index.js';
+import { setMCPClient, MockMCPClient, openNodes } from '../servers/memory/index.js';
+
+async function runTest() {
+  console.log('=== Skills Library Test ===\n');
+
+  const mockClient = new MockMCPClient();
+  setMCPClient(mockClient);
+  mockClient.loadData({
+    entities: ['001', '002', '003'].map((id, i) => ({
+      type: 'entity' as const,
+      name: `Record_${id}`,
+      entityType: 'TestRecord',
+      observations: [i === 2 ? 'status: inactive' : 'status: active'],
+    })),
+    relations: [],
+  });
+
+  const dir = await mkdtemp(path.join(tmpdir(), 'code-mode-skills-'));
+
+  try {
+    // Test 1: Save a skill
+    console.log('Test 1: Saving a skill...');
+    const library = new SkillLibrary(dir);
+    const saved = await library.save({
+      name: 'mark-processed',
+      description: 'Mark every record with the given status as processed',
+      parameters: {
+        status: { type: 'string', required: true, description: 'Status to match' },
+        marker: { type: 'string', default: 'processed: true' },
+      },
+      code: `
+        const graph = await memory.readGraph();
+        const matches = graph.entities.filter(e => e.observations.includes('status: ' + args.status));
+        await memory.addObservations(matches.map(e => ({ entityName: e.name, contents: [args.marker] })));
+        console.log('Marked', matches.length, 'records');
+      `,
+    });
+    assert.equal(formatSkillSignature(saved), 'mark-processed(status: string, marker?: string)');
+    console.log(`✓ Saved ${formatSkillSignature(saved)}\n`);
+
+    // Test 2: A fresh library sees it on disk
+    console.log('Test 2: Listing from a new library instance...');
+    const reopened = new SkillLibrary(dir);
+    const listed = await reopened.list();
+    assert.deepEqual(listed.map(s => s.name), ['mark-processed']);
+    console.log(`✓ Found ${listed.length} skill\n`);
+
+    // Test 3: Run with arguments and defaults
+    console.log('Test 3: Running with args...');
+    const result = await reopened.run('mark-processed', { status: 'inactive' });
+    assert.equal(result.status, 'success');
+    assert.deepEqual(result.output, ['Marked 1 records']);
+    const record = await openNodes(['Record_003']);
+    assert.ok(record.entities[0].observations.includes('processed: true'));
+    const loaded = (await reopened.get('mark-processed'))!;
+    const pinned = await reopened.run({ ...loaded, code: 'console.log(args.status);' }, { status: 'pinned' });
+    assert.deepEqual(pinned.output, ['pinned']);
+    console.log(`✓ Output: ${result.output.join(', ')}; a loaded skill runs as loaded\n`);
+
+    // Test 4: Argument validation
+    console.log('Test 4: Rejecting bad arguments...');
+    await assert.rejects(reopened.run('mark-processed', {}), /missing required argument "status"/);
+    await assert.rejects(reopened.run('mark-processed', { status: 1 }), /should be string, got number/);
+    await assert.rejects(reopened.run('mark-processed', { status: 'x', extra: true }), /unknown argument "extra"/);
+    await assert.rejects(reopened.run('no-such-skill'), /Unknown skill/);
+    console.log('✓ Missing, mistyped and unknown arguments rejected\n');
+
+    // Test 5: Code that does not compile is not saved
+    console.log('Test 5: Saving broken code...');
+    await assert.rejects(
+      library.save({ name: 'broken', description: 'Does not parse', code: 'const = 1;' }),
+      /does not compile/
+    );
+    await assert.rejects(
+      library.save({ name: '../escape', description: 'Bad name', code: '' }),
+      /Invalid skill name/
+    );
+    await assert.rejects(
+      library.save({ name: 'typed', description: 'Annotated as JavaScript', code: 'const n: number = 1;', language: 'javascript' }),
+      /does not compile/
+    );
+    assert.equal((await library.list()).length, 1);
+    const versions = Array.from({ length: 5 }, (_, i) => ({ name: 'racing', description: `Version ${i}`, code: `return ${i};` }));
+    await Promise.all(versions.map(version => library.save(version)));
+    assert.match((await library.get('racing'))!.description, /^Version \d$/);
+    const typed = await library.save({
+      name: 'typed',
+      description: 'Uses type annotations',
+      parameters: { status: { type: 'string', required: true } },
+      code: 'const status: string = args.status; return status.toUpperCase();',
+    });
+    assert.deepEqual((await library.run(typed, { status: 'open' })).returnValue, 'OPEN');
+    console.log('✓ Broken skills rejected, TypeScript skills saved and run\n');
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
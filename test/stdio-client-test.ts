@@ -0,0 +1,75 @@
+/**
+ * Test: Stdio MCP Client
+ *
+ * Runs the memory wrappers against a real child process (the stand-in
+ * server in test/fixtures) instead of the in-process MockMCPClient,
+ * including recovery after the server process dies.
+ */
+
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+import {
+  setMCPClient,
+  StdioMCPClient,
+  readGraph,
+  createEntities,
+  addObservations,
+  openNodes,
+} from '../servers/memory/index.js';
+
+const standInServer = fileURLToPath(new URL('./fixtures/memory-server.js', import.meta.url));
+
+async function runTest() {
+  console.log('=== Stdio MCP Client Test ===\n');
+
+  const client = new StdioMCPClient({ command: process.execPath, args: [standInServer] });
+  setMCPClient(client);
+
+  try {
+    // Test 1: Handshake
+    console.log('Test 1: Connecting to stand-in server...');
+    await client.connect();
+    assert.ok(client.connected);
+    console.log(`✓ Connected (pid ${client.pid})\n`);
+
+    // Test 2: Wrappers round-trip through the child process
+    console.log('Test 2: Creating and updating entities...');
+    await createEntities([
+      { name: 'Server_001', entityType: 'Server', observations: ['status: active'] },
+      { name: 'Server_002', entityType: 'Server', observations: ['status: inactive'] },
+    ]);
+    await addObservations([{ entityName: 'Server_001', contents: ['checked: true'] }]);
+    const opened = await openNodes(['Server_001']);
+    assert.deepEqual(opened.entities[0]?.observations, ['status: active', 'checked: true']);
+    const graph = await readGraph();
+    assert.equal(graph.entities.length, 2);
+    console.log(`✓ Graph has ${graph.entities.length} entities\n`);
+
+    // Test 3: Tool errors surface as exceptions
+    console.log('Test 3: Calling an unknown tool...');
+    await assert.rejects(client.callTool('no_such_tool', {}), /Unknown tool/);
+    console.log('✓ Unknown tool rejected\n');
+
+    // Test 4: Reconnect after the child process dies
+    console.log('Test 4: Reconnecting after server exit...');
+    const firstPid = client.pid;
+    await client.callTool('__exit', {});
+    while (client.connected) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    const fresh = await readGraph();
+    assert.ok(client.connected);
+    assert.notEqual(client.pid, firstPid);
+    assert.equal(fresh.entities.length, 0);
+    console.log(`✓ Reconnected (pid ${firstPid} → ${client.pid})\n`);
+  } finally {
+    await client.close();
+  }
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,120 @@
+/**
+ * Test: PII Tokenization
+ *
+ * Puts the mock client behind TokenizingMCPClient and checks that agent
+ * code and its output only see tokens, while writes made with those
+ * tokens store the real values.
+ */
+
+import assert from 'node:assert/strict';
+import { executeCode } from '../executor/index.js';
+import {
+  setMCPClient,
+  MockMCPClient,
+  TokenizingMCPClient,
+  PiiTokenizer,
+  DEFAULT_PII_PATTERNS,
+  parsePiiPatterns,
+  type Graph,
+} from '../servers/memory/index.js';
+
+async function runTest() {
+  console.log('=== PII Tokenization Test ===\n');
+
+  const mockClient = new MockMCPClient();
+  mockClient.loadData({
+    entities: [
+      {
+        type: 'entity',
+        name: 'Customer_001',
+        entityType: 'Customer',
+        observations: ['email: ada@example.com', 'phone: (555) 123-4567', 'employee id: EMP-00042'],
+      },
+      {
+        type: 'entity',
+        name: 'Customer_002',
+        entityType: 'Customer',
+        observations: ['email: ada@example.com', 'phone: +1 555.987.6543', 'since: 2024-01-15'],
+      },
+    ],
+    relations: [],
+  });
+  const tokenizer = new PiiTokenizer([...DEFAULT_PII_PATTERNS, { type: 'EMPLOYEE_ID', pattern: /EMP-\d{5}/ }]);
+  setMCPClient(new TokenizingMCPClient(mockClient, tokenizer));
+  const redactOutput = (text: string) => tokenizer.tokenizeText(text);
+
+  // Test 1: Text tokenization
+  console.log('Test 1: Tokenizing text...');
+  assert.equal(tokenizer.tokenizeText('mail bob@example.org or call 555-000-1111'), 'mail [EMAIL_1] or call [PHONE_1]');
+  assert.equal(tokenizer.tokenizeText('bob@example.org again'), '[EMAIL_1] again');
+  assert.equal(tokenizer.tokenizeText('since: 2024-01-15, count: 1700000000000'), 'since: 2024-01-15, count: 1700000000000');
+  assert.equal(tokenizer.detokenizeText('[EMAIL_1] / [EMAIL_99]'), 'bob@example.org / [EMAIL_99]');
+  console.log('✓ Stable tokens; dates and counters untouched\n');
+
+  // Test 2: Agent code sees tokens only
+  console.log('Test 2: Reading through the tokenizer...');
+  const read = await executeCode(`
+    const graph = await memory.readGraph();
+    for (const entity of graph.entities) console.log(entity.name, entity.observations.join(' | '));
+  `, { redactOutput });
+  assert.equal(read.status, 'success', read.error);
+  assert.deepEqual(read.output, [
+    'Customer_001 email: [EMAIL_2] | phone: [PHONE_2] | employee id: [EMPLOYEE_ID_1]',
+    'Customer_002 email: [EMAIL_2] | phone: [PHONE_3] | since: 2024-01-15',
+  ]);
+  console.log(`✓ ${read.output[0]}\n`);
+
+  // Test 3: Tokens passed to mutating calls are swapped back
+  console.log('Test 3: Writing with tokens...');
+  const write = await executeCode(`
+    const { entities } = await memory.openNodes(['Customer_001']);
+    const email = entities[0].observations[0].slice('email: '.length);
+    await memory.createEntities([{ name: 'Contact ' + email, entityType: 'Contact', observations: ['reach at ' + email] }]);
+    await memory.addObservations([{ entityName: 'Customer_002', contents: ['backup: ' + email] }]);
+    const { entities: contacts } = await memory.searchNodes('Contact');
+    console.log(contacts[0].name, contacts[0].observations[0]);
+  `, { redactOutput });
+  assert.equal(write.status, 'success', write.error);
+  assert.deepEqual(write.output, ['Contact [EMAIL_2] reach at [EMAIL_2]']);
+  const stored = await mockClient.callTool<Graph>('open_nodes', { names: ['Contact ada@example.com', 'Customer_002'] });
+  assert.deepEqual(stored.entities.map(e => e.name), ['Contact ada@example.com', 'Customer_002']);
+  assert.ok(stored.entities[1].observations.includes('backup: ada@example.com'));
+  console.log('✓ Server stored ada@example.com\n');
+
+  // Test 4: Output never contains raw values, even ones agent code writes itself
+  console.log('Test 4: Redacting console output and errors...');
+  const leaky = await executeCode(`
+    console.log('contact carol@example.net');
+    throw new Error('no such user dave@example.net');
+  `, { redactOutput, isolation: 'worker' });
+  assert.equal(leaky.status, 'error');
+  assert.deepEqual(leaky.output, ['contact [EMAIL_3]']);
+  assert.equal(leaky.error, 'no such user [EMAIL_4]');
+  console.log(`✓ Error: ${leaky.error}\n`);
+
+  // Test 5: Server errors are tokenized too
+  console.log('Test 5: Tokenizing server errors...');
+  const failing = new TokenizingMCPClient(
+    { callTool: async (_tool, params) => { throw new Error(`Entity ${String(params.name)} not found`); } },
+    tokenizer
+  );
+  await assert.rejects(failing.callTool('open_nodes', { name: '[EMAIL_2]' }), { message: 'Entity [EMAIL_2] not found' });
+  console.log('✓ Error message carries the token\n');
+
+  console.log('Test 6: Parsing custom patterns...');
+  const [ssn] = parsePiiPatterns('{"SSN": "\\\\d{3}-\\\\d{2}-\\\\d{4}"}');
+  assert.equal(ssn.type, 'SSN');
+  assert.ok(ssn.pattern.test('123-45-6789'));
+  assert.throws(() => parsePiiPatterns('{"SSN": '), /^Error: Patterns are not valid JSON/);
+  assert.throws(() => parsePiiPatterns('["\\\\d+"]'), /must be a JSON object/);
+  assert.throws(() => parsePiiPatterns('{"SSN": 42}'), { message: 'Pattern for SSN must be a string, got 42' });
+  assert.throws(() => parsePiiPatterns('{"SSN": "("}'), /^Error: Pattern for SSN does not compile: .*\/\(\//);
+  console.log('✓ Bad JSON, shapes and regexes are reported by type\n');
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
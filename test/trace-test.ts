@@ -0,0 +1,143 @@
+/**
+ * Test: Tool Call Trace
+ *
+ * Runs scripts against the mock client and checks the `calls` trace on the
+ * result: tools, parameters, result sizes, latencies and errors, across
+ * namespaces and isolation modes.
+ */
+
+import assert from 'node:assert/strict';
+import { executeCode } from '../executor/index.js';
+import {
+  setMCPClient,
+  registerMCPClient,
+  unregisterMCPClient,
+  MockMCPClient,
+  TracingMCPClient,
+  summarizeToolCalls,
+  PiiTokenizer,
+  DEFAULT_PII_PATTERNS,
+  type ToolCallTrace,
+} from '../servers/memory/index.js';
+
+async function runTest() {
+  console.log('=== Tool Call Trace Test ===\n');
+
+  const mockClient = new MockMCPClient();
+  mockClient.loadData({
+    entities: ['001', '002', '003'].map(id => ({
+      type: 'entity' as const,
+      name: `Record_${id}`,
+      entityType: 'TestRecord',
+      observations: ['status: active'],
+    })),
+    relations: [],
+  });
+  setMCPClient(mockClient);
+
+  const batch = `
+    const { entities } = await memory.searchNodes('active');
+    for (const entity of entities) {
+      await memory.addObservations([{ entityName: entity.name, contents: ['processed: true'] }]);
+    }
+  `;
+
+  // Test 1: Every wrapper call is traced in order
+  console.log('Test 1: Tracing a batch...');
+  const result = await executeCode(batch);
+  assert.equal(result.status, 'success', result.error);
+  assert.deepEqual(result.calls?.map(c => c.tool), ['search_nodes', 'add_observations', 'add_observations', 'add_observations']);
+  const [search, firstAdd] = result.calls!;
+  assert.equal(search.namespace, 'memory');
+  assert.deepEqual(search.params, { query: 'active' });
+  assert.ok(search.resultSize! > 100);
+  assert.ok(search.latencyMs >= 0);
+  assert.deepEqual(firstAdd.params, { observations: [{ entityName: 'Record_001', contents: ['processed: true'] }] });
+  console.log(`✓ ${result.calls!.length} calls traced\n`);
+
+  // Test 2: Failed calls carry the error
+  console.log('Test 2: Tracing failures...');
+  const failing = await executeCode(`
+    try { await memory.deleteEntities(['Record_001']); } catch {}
+    await memory.openNodes(['Record_002']);
+  `, { policy: { deny: ['deleteEntities'] } });
+  assert.equal(failing.calls?.length, 2);
+  assert.equal(failing.calls![0].error, 'Policy violation: memory.deleteEntities is not allowed');
+  assert.equal(failing.calls![0].resultSize, undefined);
+  assert.match(failing.calls![1].error!, /Policy violation/);
+  console.log(`✓ ${failing.calls![0].tool}: ${failing.calls![0].error}\n`);
+
+  // Test 3: Other namespaces and worker isolation
+  console.log('Test 3: Other namespaces in a worker...');
+  registerMCPClient('tickets', {
+    callTool: async <T>(toolName: string, params: Record<string, unknown>) => ({ toolName, params }) as T,
+  });
+  const inWorker = await executeCode(`
+    await memory.readGraph();
+    await tickets.callTool('list_tickets', { status: 'open' });
+  `, { isolation: 'worker' });
+  unregisterMCPClient('tickets');
+  assert.equal(inWorker.status, 'success', inWorker.error);
+  assert.deepEqual(inWorker.calls?.map(c => `${c.namespace}.${c.tool}`), ['memory.read_graph', 'tickets.list_tickets']);
+  assert.deepEqual(inWorker.calls![1].params, { status: 'open' });
+  console.log('✓ memory and tickets calls traced from the worker\n');
+
+  // Test 4: Parameters are redacted like the output
+  console.log('Test 4: Redacting traced parameters...');
+  const tokenizer = new PiiTokenizer(DEFAULT_PII_PATTERNS);
+  const redacted = await executeCode(
+    `await memory.searchNodes('ada@example.com');`,
+    { redactOutput: text => tokenizer.tokenizeText(text) }
+  );
+  assert.deepEqual(redacted.calls![0].params, { query: '[EMAIL_1]' });
+  const seen: ToolCallTrace[] = [];
+  const tracer = new TracingMCPClient(mockClient, 'memory', call => seen.push(call), {
+    redact: text => tokenizer.tokenizeText(text),
+  });
+  await tracer.callTool('search_nodes', { query: 'ada@example.com' });
+  await assert.rejects(tracer.callTool('add_observations', { observations: [{ entityName: 'bob@example.com', contents: [] }] }));
+  assert.deepEqual(seen[0].params, { query: '[EMAIL_1]' });
+  assert.equal(seen[1].error, 'Entity with name [EMAIL_2] not found');
+  const untraced = await executeCode(batch, { trace: false });
+  assert.equal(untraced.calls, undefined);
+  console.log('✓ Parameters and errors show [EMAIL_1], before they reach onCall\n');
+
+  // Test 5: Large parameters are cut down
+  console.log('Test 5: Tracing large parameters...');
+  const large = await executeCode(`
+    const entities = Array.from({ length: 500 }, (_, i) => ({
+      name: 'Bulk_' + i,
+      entityType: 'Bulk',
+      observations: ['note: ' + 'x'.repeat(1000)],
+    }));
+    await memory.createEntities(entities);
+  `);
+  assert.equal(large.status, 'success', large.error);
+  const traced = large.calls![0].params as { entities: unknown[] };
+  assert.ok(JSON.stringify(traced).length <= 2000);
+  assert.equal(traced.entities.at(-1), '…and 490 more');
+  const small: ToolCallTrace[] = [];
+  await new TracingMCPClient(mockClient, 'memory', call => small.push(call), { maxParamChars: 100 })
+    .callTool('search_nodes', { query: 'y'.repeat(5000) });
+  assert.ok(JSON.stringify(small[0].params).length <= 100);
+  assert.match(small[0].params.query as string, /^y+…$/);
+  console.log(`✓ 500 entities traced in ${JSON.stringify(traced).length} chars\n`);
+
+  // Test 6: Summary per tool
+  console.log('Test 6: Summarizing the trace...');
+  const summary = summarizeToolCalls([...result.calls!, failing.calls![0]]);
+  assert.equal(summary.length, 4);
+  assert.match(summary[0], /^memory\.search_nodes: 1 call, [\d.]+ms, [\d,]+ chars returned$/);
+  assert.match(summary[1], /^memory\.add_observations: 3 calls, /);
+  assert.match(summary[2], /^memory\.delete_entities: 1 call \(1 failed\), /);
+  assert.match(summary[3], /^failed memory\.delete_entities: Policy violation/);
+  console.log(summary.map(line => `  ${line}`).join('\n'));
+  console.log();
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
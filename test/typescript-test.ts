@@ -0,0 +1,102 @@
+/**
+ * Test: TypeScript Input
+ *
+ * Runs TypeScript through executeCode and checks that it is transpiled,
+ * that syntax errors come back as diagnostics, and that type checking
+ * against the memory wrapper types stops bad code before it writes.
+ */
+
+import assert from 'node:assert/strict';
+import { executeCode } from '../executor/index.js';
+import { setMCPClient, MockMCPClient, readGraph } from '../servers/memory/index.js';
+
+async function runTest() {
+  console.log('=== TypeScript Input Test ===\n');
+
+  const mockClient = new MockMCPClient();
+  mockClient.loadData({
+    entities: ['001', '002'].map(id => ({
+      type: 'entity' as const,
+      name: `Record_${id}`,
+      entityType: 'TestRecord',
+      observations: ['status: active'],
+    })),
+    relations: [],
+  });
+  setMCPClient(mockClient);
+
+  const typedBatch = `
+    interface Tally { name: string; count: number }
+    const graph = await memory.readGraph();
+    const tallies: Tally[] = graph.entities.map((e): Tally => ({ name: e.name, count: e.observations.length }));
+    await memory.addObservations(tallies.map(t => ({ entityName: t.name, contents: ['tallied: ' + t.count] })));
+    return tallies as Tally[];
+  `;
+
+  // Test 1: Type annotations are transpiled away
+  console.log('Test 1: Running annotated code...');
+  const typed = await executeCode(typedBatch);
+  assert.equal(typed.status, 'success', typed.error);
+  assert.deepEqual(typed.returnValue, [{ name: 'Record_001', count: 1 }, { name: 'Record_002', count: 1 }]);
+  const inWorker = await executeCode('const n: number = (await memory.readGraph()).entities.length; return n;', {
+    isolation: 'worker',
+  });
+  assert.equal(inWorker.returnValue, 2);
+  const plain = await executeCode('return 1 < 2;', { language: 'javascript' });
+  assert.equal(plain.returnValue, true);
+  console.log('✓ Interfaces, annotations and casts removed\n');
+
+  // Test 2: Syntax errors are diagnostics
+  console.log('Test 2: Syntax errors...');
+  const broken = await executeCode('const total = ;\nconsole.log(total);');
+  assert.equal(broken.status, 'error');
+  assert.deepEqual(broken.diagnostics, ['Line 1, column 15: Expression expected. (TS1109)']);
+  assert.equal(broken.error, 'Syntax error: Line 1, column 15: Expression expected. (TS1109)');
+  console.log(`✓ ${broken.error}\n`);
+
+  // Test 3: Type errors stop the code before it writes
+  console.log('Test 3: Type-checking a misspelled field...');
+  const misspelled = await executeCode(`
+    await memory.createEntities([{ name: 'Draft', entityType: 'Note', observations: [] }]);
+    await memory.addObservations([{ entityNam: 'Record_001', contents: ['checked: true'] }]);
+  `, { typeCheck: true });
+  assert.equal(misspelled.status, 'error');
+  assert.equal(misspelled.error, 'Type check failed with 1 error');
+  assert.equal(misspelled.diagnostics?.length, 1);
+  assert.match(misspelled.diagnostics![0], /^Line 3, column 37: .*'entityNam' does not exist in type 'AddObservationInput'.*\(TS2561\)$/);
+  assert.ok(!(await readGraph()).entities.some(e => e.name === 'Draft'));
+  console.log(`✓ ${misspelled.diagnostics![0]}\n`);
+
+  // Test 4: Well-typed code passes the check
+  console.log('Test 4: Type-checking valid code...');
+  const checked = await executeCode(typedBatch, { typeCheck: true, globals: { limit: 5 } });
+  assert.equal(checked.status, 'success', checked.diagnostics?.join('\n'));
+  const wrongTypes = await executeCode(`
+    const graph = await memory.readGraph();
+    const first: string = graph.entities.length;
+    await memory.deleteEntities(graph.entities[0].name);
+    process.exit(1);
+  `, { typeCheck: true });
+  assert.equal(wrongTypes.diagnostics?.length, 3);
+  assert.match(wrongTypes.diagnostics![0], /Line 3.*'number' is not assignable to type 'string'/);
+  assert.match(wrongTypes.diagnostics![1], /Line 4.*'string' is not assignable to parameter of type 'string\[\]'/);
+  assert.match(wrongTypes.diagnostics![2], /Line 5.*Cannot find name 'process'/);
+  console.log(`✓ Valid code runs; ${wrongTypes.error}\n`);
+
+  // Test 5: Session variables from earlier calls are not flagged
+  console.log('Test 5: Type-checking in a session...');
+  await executeCode('const records = (await memory.readGraph()).entities;', { sessionId: 'ts-test' });
+  const later = await executeCode('const names: string[] = records.map(r => r.name); return names;', {
+    sessionId: 'ts-test',
+    typeCheck: true,
+  });
+  assert.deepEqual(later.returnValue, ['Record_001', 'Record_002']);
+  console.log('✓ Earlier session variables accepted\n');
+
+  console.log('=== All tests passed ===');
+}
+
+runTest().catch(error => {
+  console.error(error);
+  process.exit(1);
+});